@@ -0,0 +1,25 @@
+import { AccountProfile } from '../../shared/types';
+
+/**
+ * The player's account on the server.
+ * The server signs a token on the first join, presenting it on later joins keeps the same identity.
+ */
+export class Account {
+    public static profile: AccountProfile | null = null;
+
+    /**
+     * Get the stored account token
+     * @returns The token, or null if this browser never joined the server
+     */
+    public static loadToken(): string | null {
+        return localStorage.getItem('account_token');
+    }
+
+    /**
+     * Store the account token received from the server
+     * @param token The signed token
+     */
+    public static saveToken(token: string): void {
+        localStorage.setItem('account_token', token);
+    }
+}
@@ -4,8 +4,35 @@ import { LevelRenderer } from './LevelRenderer';
 import { ConvexShape } from '../../shared/ConvexShape';
 import { Body } from 'shared/Body';
 
+/**
+ * Kinds of actions an action area can run when the player enters it
+ */
+export enum TriggerActionType {
+    Teleport = "teleport",
+    ToggleActive = "toggleActive",
+    ShowText = "showText",
+    SetCheckpoint = "setCheckpoint",
+    SetGravity = "setGravity",
+    FinishLevel = "finishLevel",
+    SwitchLevel = "switchLevel",
+}
+
+/**
+ * Declarative action stored in the level data, only the fields used by its type are set
+ */
+export interface TriggerAction {
+    type: TriggerActionType;
+    target?: string;       // Name of the entity to toggle or the checkpoint to activate
+    position?: number[];   // Teleport destination
+    text?: string;         // Text to show
+    gravityScale?: number; // Multiplier on the player's gravity
+    levelIdx?: number;     // Level to switch to
+}
+
 export class ActionArea extends Entity {
     public callback: () => void;
+    // Actions from the level data, turned into the callback by Level.createActionCallback
+    public actions: TriggerAction[] = [];
     private isActive: boolean = true;
     private time: number = 0;
     public triggerOnce: boolean = true;
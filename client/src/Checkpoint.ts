@@ -0,0 +1,88 @@
+import * as THREE from 'three';
+import { Entity } from './Entity';
+import { LevelRenderer } from './LevelRenderer';
+import { ConvexShape } from '../../shared/ConvexShape';
+
+/**
+ * Area that becomes the respawn point of the player once touched.
+ * Falling off the level after reaching it puts the player back at its center instead of restarting the level.
+ */
+export class Checkpoint extends Entity {
+    public shape: ConvexShape;
+    // Set once the local player touched it, checkpoints are only reached once per run
+    public reached: boolean = false;
+    private time: number = 0;
+
+    constructor(position: THREE.Vector3, size: THREE.Vector3) {
+        super();
+        // Create unit box and use scale to set size, just like ActionArea
+        this.shape = ConvexShape.createBox(
+            new THREE.Vector3(-0.5, -0.5, -0.5),
+            new THREE.Vector3(0.5, 0.5, 0.5)
+        );
+        this.shape.setScale(size);
+        this.shape.setPosition(position);
+        this.shape.updateTransform();
+    }
+
+    public checkCollision(point: THREE.Vector3): boolean {
+        return this.shape.getBoundingBox().containsPoint(point);
+    }
+
+    /**
+     * Get the position the player respawns at
+     * @returns The center of the checkpoint area
+     */
+    public getRespawnPosition(): THREE.Vector3 {
+        return this.shape.position.clone();
+    }
+
+    public getBoundingBox(): THREE.Box3 {
+        return this.shape.getBoundingBox();
+    }
+
+    public getShape(): ConvexShape | null {
+        return this.shape;
+    }
+
+    public shapeChanged(): void {
+        if (this.boxCollisionMesh) {
+            this.shape.position.copy(this.boxCollisionMesh.position);
+        }
+        this.shape.updateTransform();
+    }
+
+    public render(levelRenderer: LevelRenderer): void {
+        const instancedRenderer = levelRenderer.instancedRenderer;
+        this.time += 0.016;
+
+        // Orange until reached, then green like the action areas
+        const color = new THREE.Color(this.reached ? 0x00ff88 : 0xffaa00);
+        const bounds = this.shape.getBoundingBox();
+        const center = new THREE.Vector3();
+        bounds.getCenter(center);
+        const height = bounds.max.y - bounds.min.y;
+
+        // Flag pole at the center of the area
+        const poleBottom = new THREE.Vector3(center.x, bounds.min.y, center.z);
+        const poleTop = poleBottom.clone().add(new THREE.Vector3(0, height, 0));
+        instancedRenderer.renderBeam(poleBottom, poleTop, 0.2, 0.2, undefined, 0xdddddd);
+
+        // Flag waving at the top of the pole
+        const wave = Math.sin(this.time * 3) * 0.3;
+        const flagEnd = poleTop.clone().add(new THREE.Vector3(2, -0.5 + wave, 0));
+        instancedRenderer.renderBeam(poleTop.clone().add(new THREE.Vector3(0, -0.5, 0)), flagEnd, 1.0, 0.1, undefined, color);
+
+        // Glow on the ground marking the area
+        const glowSize = 1.0 + Math.sin(this.time * 2) * 0.1;
+        instancedRenderer.renderLightBeam(
+            poleBottom.clone().add(new THREE.Vector3(0, 0.05, 0)),
+            poleBottom.clone().add(new THREE.Vector3(0, 0.2, 0)),
+            (bounds.max.x - bounds.min.x) * glowSize,
+            (bounds.max.z - bounds.min.z) * glowSize,
+            undefined,
+            color,
+            0.3
+        );
+    }
+}
@@ -0,0 +1,87 @@
+import * as THREE from 'three';
+import { Entity } from './Entity';
+import { LevelRenderer } from './LevelRenderer';
+import { Player } from './Player';
+import { ConvexShape } from '../../shared/ConvexShape';
+
+/**
+ * Gem that the local player picks up by touching it with any part of the body
+ */
+export class Collectible extends Entity {
+    public shape: ConvexShape;
+    public radius: number;
+    public collected: boolean = false;
+    private time: number = 0;
+
+    constructor(position: THREE.Vector3, radius: number = 1.0) {
+        super();
+        this.radius = radius;
+        // Box around the gem so it can be moved in the editor like the other areas
+        this.shape = ConvexShape.createBox(
+            new THREE.Vector3(-radius, -radius, -radius),
+            new THREE.Vector3(radius, radius, radius)
+        );
+        this.shape.setPosition(position);
+        this.shape.updateTransform();
+    }
+
+    /**
+     * Check if any particle of a player touches the gem
+     * @param player The player to check
+     * @returns True if the gem can be picked up
+     */
+    public checkPlayerCollision(player: Player): boolean {
+        if (this.collected) return false;
+        return player.getBody().getParticles().some(particle =>
+            particle.position.distanceTo(this.shape.position) < this.radius + particle.radius
+        );
+    }
+
+    public getBoundingBox(): THREE.Box3 {
+        return this.shape.getBoundingBox();
+    }
+
+    public getShape(): ConvexShape | null {
+        return this.shape;
+    }
+
+    public shapeChanged(): void {
+        if (this.boxCollisionMesh) {
+            this.shape.position.copy(this.boxCollisionMesh.position);
+        }
+        this.shape.updateTransform();
+    }
+
+    public render(levelRenderer: LevelRenderer): void {
+        if (this.collected) return;
+        const instancedRenderer = levelRenderer.instancedRenderer;
+        this.time += 0.016;
+
+        // Bob up and down and spin around the vertical axis
+        const center = this.shape.position.clone().add(new THREE.Vector3(0, Math.sin(this.time * 2) * 0.2, 0));
+        const angle = this.time * 2;
+        const edge = new THREE.Vector3(Math.cos(angle), 0, Math.sin(angle)).multiplyScalar(this.radius * 0.6);
+        const top = center.clone().add(new THREE.Vector3(0, this.radius, 0));
+        const bottom = center.clone().add(new THREE.Vector3(0, -this.radius, 0));
+        const color = new THREE.Color(0xffd700);
+
+        // Diamond outline made of beams from the tips to two opposite edges
+        [edge, edge.clone().negate()].forEach(offset => {
+            const side = center.clone().add(offset);
+            instancedRenderer.renderBeam(top, side, 0.15, 0.15, undefined, color);
+            instancedRenderer.renderBeam(side, bottom, 0.15, 0.15, undefined, color);
+        });
+        instancedRenderer.renderSphere(center, this.radius * 0.35, color);
+
+        // Soft glow around the gem
+        instancedRenderer.renderLightBeam(
+            bottom,
+            top,
+            this.radius * 1.5,
+            this.radius * 1.5,
+            undefined,
+            color,
+            0.25
+        );
+    }
+}
@@ -5,6 +5,8 @@ import { ConvexShape } from 'shared/ConvexShape';
 
 export class Entity {
     public boxCollisionMesh: THREE.Mesh | null = null;
+    // Name from the level data, used by action areas to refer to the entity
+    public name: string = "";
 
     constructor() {
 
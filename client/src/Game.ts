@@ -1,7 +1,7 @@
 import * as THREE from 'three';
 import { MobileControls } from './MobileControls';
 import { TestLevels } from './TestLevels';
-import { Level } from './Level';
+import { Level, LevelEvent, LevelEventType } from './Level';
 import { LevelRenderer } from './LevelRenderer';
 import { ScreenTransition } from './ScreenTransition';
 import { Player } from './Player';
@@ -10,7 +10,14 @@ import { RoomType } from './Network';
 import { BeginnerLevels } from './BeginnerLevels';
 import { LevelEditor } from './LevelEditor';
 import { Camera, CameraMode } from './Camera';
-import { drop_level, first_level, loadJSONLevel, long_level, simple_finish, tutorial_level } from './JSONLevels';
+import { TimedLevels } from './TimedLevels';
+import { InputLog, LevelInputs, ReplayData } from '../../shared/InputLog';
+import { Replay } from './Replay';
+import { Ghost, GhostMode } from './Ghost';
+import { Sign } from './Sign';
+import { DEFAULT_SEED } from '../../shared/Random';
+import { AccountProfile, LevelAttempt } from '../../shared/types';
+import { Account } from './Account';
 import { DynamicLevel } from './DynamicLevel';
 
 /**
@@ -70,6 +77,37 @@ export class Game {
     private isLevelTimerRunning: boolean = false;
     private ticksPerSecond: number = 60; // Based on targetFPS
     private timerElement: HTMLElement | null = null;
+    private timerTextElement: HTMLElement | null = null;
+
+    // Split time of the last checkpoint, shown under the timer against the personal best split
+    private splitElement: HTMLElement | null = null;
+    private splits: (number | null)[] = [];
+
+    // Collected gems counter, shown in levels that have collectibles
+    private collectibleElement: HTMLElement | null = null;
+
+    // Text shown by action areas, hidden again a few seconds after the last trigger
+    private triggerTextElement: HTMLElement | null = null;
+    private triggerTextTimeout: number | null = null;
+
+    // Jitter buffer stats of remote players, shown in debug mode
+    private networkDebugElement: HTMLElement | null = null;
+    private networkDebugFrame: number = 0;
+
+    // Inputs of the current timed run, uploaded with the completion for server verification
+    private inputLog: InputLog = new InputLog();
+
+    // Replay playback: recorded inputs fed into the level instead of live input
+    private replayInputs: LevelInputs[] | null = null;
+    private replayTick: number = 0;
+    private pendingReplay: ReplayData | null = null;
+    private lastReplay: ReplayData | null = null;
+    // The last run however it ended, finished or not, so runs that hit a bug can be shared
+    private lastAttempt: ReplayData | null = null;
+
+    // Ghost racing: a recorded run shown alongside the player in timed levels
+    private ghost: Ghost | null = null;
+    public ghostMode: GhostMode = GhostMode.PersonalBest;
 
     constructor() {
         // Set up basic components
@@ -81,7 +119,7 @@ export class Game {
             console.log("Starting in level editor mode...");
             
             // Create level renderer for editor use
-            this.level = new Level(this, -1);
+            this.level = this.createLevel(-1);
             this.levelRenderer = new LevelRenderer(this.level, this.highPerformanceMode);
             this.level.levelRenderer = this.levelRenderer;
             
@@ -123,7 +161,7 @@ export class Game {
         
         try {
             // 1. CREATE LEVEL FIRST
-            this.level = new Level(this, 0);
+            this.level = this.createLevel(0);
             this.levelRenderer = new LevelRenderer(this.level, this.highPerformanceMode);
             this.level.levelRenderer = this.levelRenderer;
             
@@ -178,10 +216,151 @@ export class Game {
                 pointerEvents: 'none'  // Don't block mouse events
             });
             
+            this.timerTextElement = document.createElement('div');
+            this.timerElement.appendChild(this.timerTextElement);
+            
+            this.splitElement = document.createElement('div');
+            Object.assign(this.splitElement.style, {
+                fontSize: '14px',
+                display: 'none'
+            });
+            this.timerElement.appendChild(this.splitElement);
+            
             document.body.appendChild(this.timerElement);
         }
     }
 
+    /**
+     * Create the collected gems counter element
+     */
+    private createCollectibleCounter(): void {
+        if (!this.collectibleElement) {
+            this.collectibleElement = document.createElement('div');
+            this.collectibleElement.id = 'game-collectible-counter';
+            
+            // Top center, out of the way of the timer
+            Object.assign(this.collectibleElement.style, {
+                position: 'fixed',
+                top: '10px',
+                left: '50%',
+                transform: 'translateX(-50%)',
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                color: '#ffd700',
+                padding: '5px 10px',
+                borderRadius: '5px',
+                fontFamily: 'Arial, sans-serif',
+                fontSize: '16px',
+                zIndex: '1002',
+                display: 'none',
+                pointerEvents: 'none'
+            });
+            
+            document.body.appendChild(this.collectibleElement);
+        }
+    }
+
+    /**
+     * Show the number of collected gems, hidden in levels without any
+     */
+    private updateCollectibleCounter(): void {
+        if (!this.collectibleElement || !this.level) return;
+        
+        const total = this.level.collectibles.length;
+        if (total === 0) {
+            this.collectibleElement.style.display = 'none';
+            return;
+        }
+        
+        const collected = this.level.getCollectedCount();
+        let text = `Gems: ${collected}/${total}`;
+        if (this.level.requireAllCollectibles && collected < total) {
+            text += ' - collect all to unlock the finish';
+        }
+        this.collectibleElement.textContent = text;
+        this.collectibleElement.style.display = 'block';
+    }
+
+    /**
+     * Show a text from an action area in the middle of the screen
+     * @param text The text to show
+     */
+    private showTriggerText(text: string): void {
+        if (!this.triggerTextElement) {
+            this.triggerTextElement = document.createElement('div');
+            this.triggerTextElement.id = 'game-trigger-text';
+            
+            Object.assign(this.triggerTextElement.style, {
+                position: 'fixed',
+                top: '30%',
+                left: '50%',
+                transform: 'translateX(-50%)',
+                backgroundColor: 'rgba(0, 0, 0, 0.6)',
+                color: 'white',
+                padding: '10px 20px',
+                borderRadius: '5px',
+                fontFamily: 'Arial, sans-serif',
+                fontSize: '20px',
+                textAlign: 'center',
+                zIndex: '1002',
+                transition: 'opacity 0.3s',
+                opacity: '0',
+                pointerEvents: 'none'
+            });
+            
+            document.body.appendChild(this.triggerTextElement);
+        }
+        
+        this.triggerTextElement.textContent = text;
+        this.triggerTextElement.style.opacity = '1';
+        
+        // Areas that trigger every tick keep the text up while the player is inside
+        if (this.triggerTextTimeout !== null) {
+            clearTimeout(this.triggerTextTimeout);
+        }
+        this.triggerTextTimeout = window.setTimeout(() => {
+            if (this.triggerTextElement) {
+                this.triggerTextElement.style.opacity = '0';
+            }
+            this.triggerTextTimeout = null;
+        }, 3000);
+    }
+
+    /**
+     * Show the snapshot buffer stats of remote players so interpolation can be tuned
+     */
+    private updateNetworkDebugOverlay(): void {
+        if (!this.level || !this.network) return;
+
+        if (!this.networkDebugElement) {
+            this.networkDebugElement = document.createElement('div');
+            this.networkDebugElement.id = 'network-debug-overlay';
+            Object.assign(this.networkDebugElement.style, {
+                position: 'fixed',
+                top: '10px',
+                right: '10px',
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                color: 'white',
+                padding: '5px 10px',
+                borderRadius: '5px',
+                fontFamily: 'monospace',
+                fontSize: '12px',
+                whiteSpace: 'pre',
+                zIndex: '1002',
+                pointerEvents: 'none'
+            });
+            document.body.appendChild(this.networkDebugElement);
+        }
+
+        const lines = [`Interp delay ${this.network.interpolationDelayMs}ms, max extrapolation ${this.network.maxExtrapolationMs}ms`];
+        this.level.players.forEach(player => {
+            const buffer = player.snapshotBuffer;
+            if (!buffer) return;
+            lines.push(`${player.username}: buffered ${buffer.bufferedMs.toFixed(0)}ms, jitter ${buffer.jitterMs.toFixed(1)}ms, ` +
+                `extrapolating ${buffer.extrapolatedMs.toFixed(0)}ms, underruns ${buffer.underruns}, late ${buffer.droppedLate}`);
+        });
+        this.networkDebugElement.textContent = lines.join('\n');
+    }
+
     /**
      * Detect device capabilities and set flags
      */
@@ -329,6 +508,36 @@ export class Game {
             }
         });
 
+        // Replay controls: watch, load and share recorded runs
+        window.addEventListener('keydown', (event) => {
+            if (this.isTypingOrEditing()) return;
+
+            if (event.key === 'r' || event.key === 'R') {
+                this.watchBestReplay();
+            } else if (event.key === 'l' || event.key === 'L') {
+                Replay.loadReplayFromFile(replay => {
+                    if (replay) {
+                        this.startReplay(replay);
+                    }
+                });
+            } else if (event.key === 'v' || event.key === 'V') {
+                this.downloadBestReplay();
+            } else if (event.key === 'x' || event.key === 'X') {
+                this.downloadAttempt();
+            } else if (event.key === 'g' || event.key === 'G') {
+                this.cycleGhostMode();
+            }
+        });
+
+        // Switch the highscore signs between the daily, weekly and all-time boards
+        window.addEventListener('keydown', (event) => {
+            if (this.isTypingOrEditing()) return;
+
+            if (event.key === 'b' || event.key === 'B') {
+                this.cycleSignPeriod();
+            }
+        });
+
         // For editor mode, add keyboard controls to move the camera
         // Add these to the setupControlsOnce method:
         window.addEventListener('keydown', (event) => {
@@ -475,6 +684,7 @@ export class Game {
         
         // Create the timer overlay
         this.createTimerOverlay();
+        this.createCollectibleCounter();
         
         // Add fullscreen button for desktop users
         if (!this.isMobile) {
@@ -571,7 +781,30 @@ export class Game {
             }
             
             // Collect inputs to pass to level
-            const inputs = this.collectInputs();
+            let inputs = this.collectInputs();
+
+            if (this.replayInputs) {
+                // Play back the recorded inputs. When they run out the player stays frozen and the level
+                // starts over, a run that began as playback is never recorded or submitted.
+                if (this.replayTick < this.replayInputs.length) {
+                    inputs = this.replayInputs[this.replayTick++];
+                } else {
+                    if (this.replayTick++ === this.replayInputs.length) {
+                        console.log("Replay ended");
+                        this.switchLevel(this.level!.levelIdx);
+                    }
+                    inputs = {
+                        playerForward: inputs.playerForward,
+                        playerInput: { w: false, a: false, s: false, d: false, space: false, shift: false }
+                    };
+                }
+            } else if (this.isLevelTimerRunning) {
+                // Record timed runs so the server can replay them
+                inputs = this.inputLog.record(inputs);
+
+                // The ghost runs in step with the timer
+                this.ghost?.fixedUpdate();
+            }
             
             // Execute the fixed update with inputs
             if(this.doLevelUpdate)
@@ -591,6 +824,11 @@ export class Game {
             // Update camera
             this.levelRenderer!.updateCamera();
             this.levelRenderer!.render();
+
+            // Refresh the network stats a few times per second
+            if (this.debugMode && ++this.networkDebugFrame % 10 === 0) {
+                this.updateNetworkDebugOverlay();
+            }
         }
         
         // Continue the game loop
@@ -701,6 +939,7 @@ export class Game {
             <div>Mouse - Look around</div>
             <div>Mouse wheel - Zoom</div>
             <div>0,1,2 - Switch Levels</div>
+            <div>B - Switch leaderboards</div>
         `;
         
         // Add elements to container
@@ -844,6 +1083,66 @@ export class Game {
         });
     }
     
+    /**
+     * Create a level and hook up its events to the game
+     * @param levelIndex The index of the level to create
+     * @returns The created level
+     */
+    private createLevel(levelIndex: number, seed: number = DEFAULT_SEED): Level {
+        const level = new Level(levelIndex, seed);
+        level.addEventListener(event => this.handleLevelEvent(level, event));
+        return level;
+    }
+
+    /**
+     * React to gameplay events emitted by the level simulation
+     * @param level The level that emitted the event
+     * @param event The emitted event
+     */
+    private handleLevelEvent(level: Level, event: LevelEvent): void {
+        switch (event.type) {
+            case LevelEventType.PlayerDied:
+                // Restart the level and leave a burst of particles where the player fell
+                this.replayInputs = null;
+                this.switchLevel(level.levelIdx);
+                this.levelRenderer?.spawnSawCollisionParticles(event.position!, new THREE.Vector3(0, 2, 0));
+                break;
+            case LevelEventType.PlayerRespawned:
+                // The level already moved the player back to the checkpoint, the timer keeps running
+                this.levelRenderer?.spawnSawCollisionParticles(event.position!, new THREE.Vector3(0, 2, 0));
+                break;
+            case LevelEventType.CheckpointReached:
+                if (this.isLevelTimerRunning) {
+                    this.recordSplit(level.levelIdx, level.checkpoints.indexOf(event.checkpoint!));
+                }
+                break;
+            case LevelEventType.ItemCollected:
+                this.updateCollectibleCounter();
+                this.levelRenderer?.spawnSawCollisionParticles(event.position!, new THREE.Vector3(0, 1, 0));
+                break;
+            case LevelEventType.ShowText:
+                this.showTriggerText(event.text!);
+                break;
+            case LevelEventType.SwitchLevel:
+                this.replayInputs = null;
+                this.switchLevel(event.levelIdx!);
+                break;
+            case LevelEventType.SawHit:
+                this.levelRenderer?.spawnSawCollisionParticles(event.position!, event.velocity!);
+                break;
+            case LevelEventType.LevelFinished:
+                if (this.replayInputs) {
+                    // Watching a replay, nothing to report
+                    this.replayInputs = null;
+                    this.stopLevelTimer();
+                } else {
+                    this.timedLevelFinished();
+                }
+                this.switchLevel(0);
+                break;
+        }
+    }
+
     /**
      * Perform the actual level switch after transition effect
      * @param levelIndex The index of the level to switch to
@@ -855,20 +1154,29 @@ export class Game {
         const wasInOverworld = this.level?.levelIdx === 0;
         const goingToOverworld = levelIndex === 0;
         
-        // Handle network room switching if needed
-        if (this.network!.playerId && wasInOverworld !== goingToOverworld) {
+        // Handle network room switching if needed, gameplay rooms are per level
+        const changingGameplayLevel = !wasInOverworld && !goingToOverworld && this.level?.levelIdx !== levelIndex;
+        if (this.network!.playerId && (wasInOverworld !== goingToOverworld || changingGameplayLevel)) {
             // We're changing between overworld and gameplay rooms
             if (goingToOverworld) {
                 console.log("Switching to overworld room...");
                 this.switchToOverworldRoom();
             } else {
                 console.log("Switching to gameplay room...");
-                this.switchToGameplayRoom();
+                this.switchToGameplayRoom(levelIndex);
             }
         }
         
-        // Create new Level instance
-        this.level = new Level(this, levelIndex);
+        // Take the replay requested for this level, if any
+        const replay = this.pendingReplay && this.pendingReplay.levelIdx === levelIndex ? this.pendingReplay : null;
+        this.pendingReplay = null;
+
+        // Create new Level instance, seeded like the recorded run when watching a replay
+        this.level = this.createLevel(levelIndex, replay ? replay.seed : DEFAULT_SEED);
+
+        // Feed the recorded inputs from the first tick
+        this.replayInputs = replay ? InputLog.fromFrames(replay.frames)!.decode() : null;
+        this.replayTick = 0;
         
         if (this.levelRenderer) {
             this.levelRenderer.reset(this.level);
@@ -888,7 +1196,13 @@ export class Game {
             this.localPlayerId = localId;
         }
 
+        // Keep the account color across levels
+        if (Account.profile) {
+            this.level.localPlayer!.color.set(Account.profile.color);
+        }
+
         this.loadLevelContent(levelIndex);
+        this.updateCollectibleCounter();
         
         this.level.localPlayer?.setPosition(this.level.playerStartPosition);
         console.log(`Level ${levelIndex} switch complete`);
@@ -897,6 +1211,153 @@ export class Game {
         if (levelIndex !== 0) {
             this.startLevelTimer();
         }
+
+        this.setupGhost(levelIndex, replay !== null);
+    }
+
+    /**
+     * Set up the ghost to race against after a level switch
+     * @param levelIndex The level that was switched to
+     * @param isReplay True when a replay is being watched, which never shows a ghost
+     */
+    private setupGhost(levelIndex: number, isReplay: boolean): void {
+        this.ghost = null;
+        this.levelRenderer!.ghost = null;
+
+        if (isReplay || !TimedLevels.isTimedLevel(levelIndex)) return;
+
+        if (this.ghostMode === GhostMode.PersonalBest) {
+            const replay = Replay.loadBestReplay(levelIndex);
+            if (replay) {
+                this.setGhostReplay(replay);
+            }
+        } else if (this.ghostMode === GhostMode.Leader) {
+            // The run arrives later through setGhostReplay
+            this.network?.requestGhostRun(levelIndex);
+        }
+    }
+
+    /**
+     * Race against a recorded run in the current level
+     * @param replay The run to show as a ghost, ignored if it is for another level
+     */
+    public setGhostReplay(replay: ReplayData): void {
+        if (!this.level || this.level.levelIdx !== replay.levelIdx || this.replayInputs) return;
+
+        const inputLog = InputLog.fromFrames(replay.frames);
+        if (!inputLog || !TimedLevels.isTimedLevel(replay.levelIdx)) {
+            console.error("Invalid ghost run");
+            return;
+        }
+
+        console.log(`Racing ghost of ${replay.username || 'unknown'} on level ${replay.levelIdx} (${replay.ticks} ticks)`);
+        this.ghost = new Ghost(replay);
+
+        // Catch up if the run arrived after the timer started
+        this.ghost.skipTo(this.levelTimerTicks);
+        this.levelRenderer!.ghost = this.ghost;
+    }
+
+    /**
+     * Switch between no ghost, the personal best and the #1 leaderboard run
+     */
+    private cycleGhostMode(): void {
+        const names = ["Ghost off", "Ghost: personal best", "Ghost: leaderboard #1"];
+        this.ghostMode = (this.ghostMode + 1) % names.length;
+        this.network?.showNotification(names[this.ghostMode], 2000);
+
+        // Apply the new mode straight away
+        if (this.level) {
+            this.setupGhost(this.level.levelIdx, this.replayInputs !== null);
+        }
+    }
+
+    /**
+     * Check if game hotkeys should be ignored: while typing in a text field, like the name fields of the editor
+     * and the account name box, and in the level editor, which has its own shortcuts
+     */
+    private isTypingOrEditing(): boolean {
+        const activeElement = document.activeElement;
+        return activeElement instanceof HTMLInputElement ||
+            activeElement instanceof HTMLTextAreaElement ||
+            LevelEditor.shouldActivateEditor();
+    }
+
+    /**
+     * Show the next leaderboard on all highscore signs of the level
+     */
+    private cycleSignPeriod(): void {
+        const signs = this.level?.signs ?? [];
+        if (signs.length === 0) return;
+
+        const period = Sign.nextPeriod(signs[0].period);
+        signs.forEach(sign => sign.showPeriod(period));
+    }
+
+    /**
+     * Watch a recorded run. Switches to the run's level and plays back its inputs.
+     * @param replay The run to watch
+     */
+    public startReplay(replay: ReplayData): void {
+        console.log(`Starting replay of level ${replay.levelIdx} by ${replay.username || 'unknown'} (${replay.ticks} ticks)`);
+        this.pendingReplay = replay;
+        this.switchLevel(replay.levelIdx);
+    }
+
+    /**
+     * Watch the personal best of the current timed level, or the last finished run from the overworld
+     */
+    private watchBestReplay(): void {
+        const levelIdx = this.level?.levelIdx ?? 0;
+        const replay = TimedLevels.isTimedLevel(levelIdx) ? Replay.loadBestReplay(levelIdx) : this.lastReplay;
+        if (replay) {
+            this.startReplay(replay);
+        } else {
+            console.log("No replay available");
+        }
+    }
+
+    /**
+     * Download the personal best of the current timed level, or the last finished run from the overworld
+     */
+    private downloadBestReplay(): void {
+        const levelIdx = this.level?.levelIdx ?? 0;
+        const replay = TimedLevels.isTimedLevel(levelIdx) ? Replay.loadBestReplay(levelIdx) : this.lastReplay;
+        if (replay) {
+            Replay.downloadReplay(replay);
+        } else {
+            console.log("No replay available");
+        }
+    }
+
+    /**
+     * Download the current run, or the last one if no run is going on, whether or not it was finished
+     */
+    private downloadAttempt(): void {
+        const replay = this.recordAttempt() ?? this.lastAttempt;
+        if (replay) {
+            Replay.downloadReplay(replay);
+        } else {
+            console.log("No attempt recorded");
+        }
+    }
+
+    /**
+     * Get the inputs recorded so far in the running level
+     * @returns The run, or null if no run is being recorded
+     */
+    private recordAttempt(): ReplayData | null {
+        if (!this.isLevelTimerRunning || !this.level || this.inputLog.tickCount === 0) {
+            return null;
+        }
+        return {
+            levelIdx: this.level.levelIdx,
+            seed: this.level.random.seed,
+            ticks: this.inputLog.tickCount,
+            username: this.userName,
+            frames: this.inputLog.frames,
+            splits: this.splits.length > 0 ? [...this.splits] : undefined
+        };
     }
 
     /**
@@ -932,15 +1393,16 @@ export class Game {
 
     /**
      * Switch to the gameplay room for non-overworld levels
+     * @param levelIndex The level being played, each level has its own room
      */
-    private switchToGameplayRoom(): void {
+    private switchToGameplayRoom(levelIndex: number): void {
         if (!this.network) return;
         
         // First disconnect from current room (likely overworld)
         this.network.disconnect();
         
         // Connect to gameplay room
-        this.network.connectToRoom(RoomType.GAMEPLAY)
+        this.network.connectToRoom(RoomType.GAMEPLAY, levelIndex)
             .then(networkId => {
                 // Successfully connected to gameplay room
                 console.log(`Connected to gameplay room with ID: ${networkId}`);
@@ -980,26 +1442,16 @@ export class Game {
             case 1:
                 BeginnerLevels.createTutorialLevel(this.level!, this);
                 break;
-            case 2:
-                loadJSONLevel(this.level!, this, tutorial_level, true);
-                break;
             case 3:
                 TestLevels.createJungleGymTest(this.level!, this);
                 break;
+            case 2:
             case 4:
-                loadJSONLevel(this.level!, this, simple_finish, true);
-                break;
             case 5:
-                loadJSONLevel(this.level!, this, drop_level, true)
-                break;
             case 6:
-                loadJSONLevel(this.level!, this, first_level, true);
-                break;
             case 7:
-                loadJSONLevel(this.level!, this, long_level, true)
-                break;
             case 8:
-                TestLevels.createSkydivingChallenge(this.level!, this);
+                TimedLevels.loadLevel(this.level!, this, levelIndex);
                 break;
             default:
                 console.error(`Unknown level index: ${levelIndex}`);
@@ -1015,6 +1467,18 @@ export class Game {
         if (this.timerElement && this.timerElement.parentNode) {
             this.timerElement.parentNode.removeChild(this.timerElement);
             this.timerElement = null;
+            this.timerTextElement = null;
+            this.splitElement = null;
+        }
+        
+        if (this.collectibleElement && this.collectibleElement.parentNode) {
+            this.collectibleElement.parentNode.removeChild(this.collectibleElement);
+            this.collectibleElement = null;
+        }
+        
+        if (this.triggerTextElement && this.triggerTextElement.parentNode) {
+            this.triggerTextElement.parentNode.removeChild(this.triggerTextElement);
+            this.triggerTextElement = null;
         }
         
         // Clean up other event listeners and resources
@@ -1178,7 +1642,7 @@ export class Game {
             RoomType.OVERWORLD : RoomType.GAMEPLAY;
         
         // Try to connect but don't block the game
-        this.network!.connectToRoom(initialRoom).then((networkId) => {
+        this.network!.connectToRoom(initialRoom, this.level?.levelIdx ?? 0).then((networkId) => {
             // Connection successful, update the local player's ID
             if (this.level && this.localPlayerId) {
                 const success = this.level.changePlayerId(this.localPlayerId, networkId);
@@ -1293,7 +1757,7 @@ export class Game {
         
         // Add title
         const title = document.createElement('h2');
-        title.textContent = 'Choose Your Username';
+        title.textContent = 'Choose Your Username and Color';
         title.style.margin = '0 0 20px 0';
         title.style.color = '#fff';
         
@@ -1312,6 +1776,17 @@ export class Game {
         usernameInput.style.fontSize = '16px';
         usernameInput.style.boxSizing = 'border-box';
         
+        // Add the player color of the account
+        const colorInput = document.createElement('input');
+        colorInput.type = 'color';
+        colorInput.value = Account.profile?.color ?? '#77dd77';
+        colorInput.style.width = '100%';
+        colorInput.style.height = '40px';
+        colorInput.style.marginBottom = '20px';
+        colorInput.style.border = 'none';
+        colorInput.style.backgroundColor = '#555';
+        colorInput.style.cursor = 'pointer';
+        
         // Add random name generator button
         const randomBtn = document.createElement('button');
         randomBtn.textContent = 'Random Name';
@@ -1359,6 +1834,11 @@ export class Game {
                 // Update username in game
                 this.changeUsername(newUsername);
                 
+                // The server sends the profile back, which colors the player
+                if (colorInput.value !== Account.profile?.color) {
+                    this.network?.sendColorChange(colorInput.value);
+                }
+                
                 // Remove modal
                 document.body.removeChild(modal);
             } else {
@@ -1380,6 +1860,7 @@ export class Game {
         // Add all elements to modal content
         modalContent.appendChild(title);
         modalContent.appendChild(usernameInput);
+        modalContent.appendChild(colorInput);
         const buttonContainer = document.createElement('div');
         buttonContainer.appendChild(randomBtn);
         buttonContainer.appendChild(saveBtn);
@@ -1432,6 +1913,27 @@ export class Game {
         }
     }
 
+    /**
+     * Use the display name and color of the player's account
+     * @param profile The account profile sent by the server
+     */
+    public applyAccountProfile(profile: AccountProfile): void {
+        if (this.userName !== profile.displayName) {
+            console.log(`Account name is "${profile.displayName}"`);
+        }
+        this.userName = profile.displayName;
+        localStorage.setItem('username', profile.displayName);
+        
+        const localPlayer = this.level?.localPlayer;
+        if (localPlayer) {
+            localPlayer.username = profile.displayName;
+            localPlayer.color = new THREE.Color(profile.color);
+            if (this.levelRenderer?.scene) {
+                localPlayer.updateUsernameText(this.levelRenderer.scene);
+            }
+        }
+    }
+
     /**
      * Report level completion to server
      * @param levelId The level ID that was completed
@@ -1441,9 +1943,9 @@ export class Game {
     public reportLevelCompletion(levelId: number, timeMs: number, stars: number = 0): void {
         console.log(`Level ${levelId} completed in ${timeMs}ms with ${stars} stars`);
         
-        // Send to server if connected
+        // Send to server if connected, along with the inputs so the run can be verified
         if (this.network && this.network.playerId) {
-            this.network.sendLevelCompletion(levelId, timeMs, stars);
+            this.network.sendLevelCompletion(levelId, timeMs, stars, this.inputLog.frames);
         }
     }
 
@@ -1480,12 +1982,35 @@ export class Game {
             // Store the level ID and time for later use
             const levelId = this.level?.levelIdx || 0;
             const timeMs = this.levelTimerTicks * (1000 / this.ticksPerSecond);
+            const stars = this.level?.starsForTime(timeMs) ?? 0;
+
+            // Personal best before this run, from the verified history or else the locally saved best run
+            const history = this.network?.getLevelHistory(levelId) ?? [];
+            const localBest = Replay.loadBestReplay(levelId);
+            let previousBestMs: number | null = null;
+            if (history.length > 0) {
+                previousBestMs = Math.min(...history.map(attempt => attempt.timeMs));
+            } else if (localBest) {
+                previousBestMs = localBest.ticks * (1000 / this.ticksPerSecond);
+            }
+
+            // Keep the run so it can be watched back and shared
+            this.lastReplay = {
+                levelIdx: levelId,
+                seed: this.level?.random.seed ?? DEFAULT_SEED,
+                ticks: this.levelTimerTicks,
+                username: this.userName,
+                frames: this.inputLog.frames,
+                splits: this.splits.length > 0 ? this.splits : undefined
+            };
+            Replay.saveBestReplay(this.lastReplay);
+            this.lastAttempt = this.lastReplay;
             
             // Report to server if needed - store result in a variable
-            const wasReported = this.reportLevelCompletionToServer(levelId, timeMs);
+            const wasReported = this.reportLevelCompletionToServer(levelId, timeMs, stars);
             
             // Show completion message with time
-            this.showLevelCompletedMessage(timeInSeconds);
+            this.showLevelCompletedMessage(timeInSeconds, stars, previousBestMs, history);
             
             // If we couldn't report to server, at least show a local notification
             if (!wasReported) {
@@ -1499,10 +2024,10 @@ export class Game {
      * Report level completion to server
      * Returns true if successfully reported
      */
-    private reportLevelCompletionToServer(levelId: number, timeMs: number): boolean {
+    private reportLevelCompletionToServer(levelId: number, timeMs: number, stars: number): boolean {
         if (this.network && this.network.playerId) {
             // Report level completion
-            this.reportLevelCompletion(levelId, timeMs);
+            this.reportLevelCompletion(levelId, timeMs, stars);
             
             return true;
         }
@@ -1591,6 +2116,11 @@ export class Game {
     public startLevelTimer(): void {
         this.levelTimerTicks = 0;
         this.isLevelTimerRunning = true;
+        this.inputLog = new InputLog();
+        this.splits = [];
+        if (this.splitElement) {
+            this.splitElement.style.display = 'none';
+        }
         console.log("Level timer started");
         
         // Update and show the timer display
@@ -1601,6 +2131,8 @@ export class Game {
     }
     
     public stopLevelTimer(): void {
+        // Keep the run that ends here, deaths and quits included
+        this.lastAttempt = this.recordAttempt() ?? this.lastAttempt;
         this.isLevelTimerRunning = false;
         
         // Hide the timer
@@ -1611,23 +2143,61 @@ export class Game {
     
     // Add new method to update the timer display
     private updateTimerDisplay(): void {
-        if (!this.timerElement) return;
+        if (!this.timerTextElement) return;
         
-        // Convert ticks to seconds and format as MM:SS.mm
-        const totalSeconds = this.levelTimerTicks / this.ticksPerSecond;
+        // Update the timer text
+        const timeString = this.formatTimerTicks(this.levelTimerTicks);
+        this.timerTextElement.textContent = this.replayInputs ? `Replay: ${timeString}` : `Time: ${timeString}`;
+    }
+    
+    /**
+     * Format a number of timer ticks as MM:SS.mm
+     */
+    private formatTimerTicks(ticks: number): string {
+        const totalSeconds = ticks / this.ticksPerSecond;
         const minutes = Math.floor(totalSeconds / 60);
         const seconds = Math.floor(totalSeconds % 60);
         const milliseconds = Math.floor((totalSeconds % 1) * 100);
         
-        // Format the time string
-        const timeString = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(2, '0')}`;
+        return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(2, '0')}`;
+    }
+    
+    /**
+     * Record the split time of a checkpoint and show it against the split of the personal best run
+     * @param levelIdx The level being played
+     * @param checkpointIndex Index of the checkpoint in the level
+     */
+    private recordSplit(levelIdx: number, checkpointIndex: number): void {
+        while (this.splits.length <= checkpointIndex) {
+            this.splits.push(null);
+        }
+        this.splits[checkpointIndex] = this.levelTimerTicks;
+        
+        if (!this.splitElement) return;
+        
+        let text = `Checkpoint ${checkpointIndex + 1}: ${this.formatTimerTicks(this.levelTimerTicks)}`;
+        let color = 'white';
+        const bestSplit = Replay.loadBestReplay(levelIdx)?.splits?.[checkpointIndex];
+        if (typeof bestSplit === 'number') {
+            // Ahead of the personal best is green, behind is red
+            const difference = (this.levelTimerTicks - bestSplit) / this.ticksPerSecond;
+            text += ` (${difference <= 0 ? '-' : '+'}${Math.abs(difference).toFixed(2)})`;
+            color = difference <= 0 ? '#77dd77' : '#ff6961';
+        }
         
-        // Update the timer text
-        this.timerElement.textContent = `Time: ${timeString}`;
+        this.splitElement.textContent = text;
+        this.splitElement.style.color = color;
+        this.splitElement.style.display = 'block';
     }
     
-    // Add method to show level completed message
-    private showLevelCompletedMessage(timeInSeconds: number): void {
+    /**
+     * Show the level completed message with the improvement over the personal best
+     * @param timeInSeconds Time of the run
+     * @param stars Stars earned by beating the par times of the level
+     * @param previousBestMs Personal best before this run, or null on the first completion
+     * @param history Earlier verified attempts, drawn as a graph together with this run
+     */
+    private showLevelCompletedMessage(timeInSeconds: number, stars: number, previousBestMs: number | null, history: LevelAttempt[]): void {
         // Format the time string
         const minutes = Math.floor(timeInSeconds / 60);
         const seconds = Math.floor(timeInSeconds % 60);
@@ -1670,7 +2240,78 @@ export class Game {
         // Set the message content
         completeElement.textContent = `Level Complete! Final Time: ${timeString}`;
         
+        // Stars earned, only for levels with par times
+        if (this.level && this.level.parTimes.length > 0) {
+            const starsElement = document.createElement('div');
+            starsElement.style.marginTop = '8px';
+            starsElement.textContent = TimedLevels.formatStars(stars);
+            completeElement.appendChild(starsElement);
+        }
+        
+        // Compare with the personal best
+        const improvement = document.createElement('div');
+        Object.assign(improvement.style, {
+            fontSize: '18px',
+            marginTop: '8px'
+        });
+        if (previousBestMs === null) {
+            improvement.textContent = 'First completion!';
+        } else {
+            const differenceSeconds = (previousBestMs - timeInSeconds * 1000) / 1000;
+            if (differenceSeconds > 0) {
+                improvement.textContent = `New personal best! Improved by ${differenceSeconds.toFixed(2)} seconds`;
+                improvement.style.color = '#77dd77';
+            } else {
+                improvement.textContent = `${(-differenceSeconds).toFixed(2)} seconds off your best`;
+                improvement.style.color = '#cccccc';
+            }
+        }
+        completeElement.appendChild(improvement);
+        
+        // Graph of the recent attempts, this run included
+        if (history.length > 0) {
+            const times = [...history.map(attempt => attempt.timeMs), timeInSeconds * 1000];
+            completeElement.appendChild(this.createHistoryGraph(times.slice(-20)));
+        }
+        
         // Add to document
         document.body.appendChild(completeElement);
     }
+    
+    /**
+     * Draw a line graph of attempt times, faster runs higher up
+     * @param timesMs Times of the attempts, oldest first, the last one is highlighted
+     * @returns Canvas with the graph
+     */
+    private createHistoryGraph(timesMs: number[]): HTMLCanvasElement {
+        const canvas = document.createElement('canvas');
+        canvas.width = 300;
+        canvas.height = 100;
+        canvas.style.display = 'block';
+        canvas.style.margin = '10px auto 0';
+        const ctx = canvas.getContext('2d')!;
+        
+        const padding = 10;
+        const best = Math.min(...timesMs);
+        const worst = Math.max(...timesMs);
+        const range = Math.max(worst - best, 1);
+        const points = timesMs.map((timeMs, i) => ({
+            x: padding + (canvas.width - padding * 2) * (timesMs.length > 1 ? i / (timesMs.length - 1) : 0.5),
+            y: padding + (canvas.height - padding * 2) * (timeMs - best) / range
+        }));
+        
+        ctx.strokeStyle = '#ffff00';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        points.forEach((point, i) => i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+        ctx.stroke();
+        
+        const last = points[points.length - 1];
+        ctx.fillStyle = '#77dd77';
+        ctx.beginPath();
+        ctx.arc(last.x, last.y, 5, 0, Math.PI * 2);
+        ctx.fill();
+        
+        return canvas;
+    }
 }
\ No newline at end of file
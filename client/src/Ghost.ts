@@ -0,0 +1,79 @@
+import { Level } from './Level';
+import { LevelRenderer } from './LevelRenderer';
+import { Player } from './Player';
+import { TimedLevels } from './TimedLevels';
+import { InputLog, LevelInputs, ReplayData } from '../../shared/InputLog';
+
+/**
+ * Which recorded run the ghost follows
+ */
+export enum GhostMode {
+    Off,
+    PersonalBest,
+    Leader
+}
+
+/**
+ * A translucent player that follows a recorded run.
+ * The run is simulated in its own headless level, so the ghost never collides with
+ * the local player or changes anything in the level being played.
+ */
+export class Ghost {
+    public replay: ReplayData;
+    public player: Player;
+    private level: Level;
+    private inputs: LevelInputs[];
+    private tick: number = 0;
+
+    /**
+     * Create a ghost for a recorded run
+     * @param replay The run to follow, must be for a timed level
+     */
+    constructor(replay: ReplayData) {
+        this.replay = replay;
+        this.inputs = InputLog.fromFrames(replay.frames)!.decode();
+
+        // Build the level the same way Game.doLevelSwitch does
+        this.level = new Level(replay.levelIdx, replay.seed);
+        this.player = this.level.addPlayer('ghost', true, replay.username);
+        this.player.isGhost = true;
+        TimedLevels.loadLevel(this.level, null, replay.levelIdx);
+        this.player.setPosition(this.level.playerStartPosition);
+    }
+
+    /**
+     * Check if the ghost has stopped moving
+     * @returns True once the run ran out of inputs, finished the level or fell off
+     */
+    public isDone(): boolean {
+        return this.tick >= this.inputs.length || this.level.isFinished || !this.level.localPlayer;
+    }
+
+    /**
+     * Advance the ghost by one tick of its recorded run
+     */
+    public fixedUpdate(): void {
+        if (this.isDone()) return;
+        this.level.fixedUpdate(this.inputs[this.tick++]);
+    }
+
+    /**
+     * Fast-forward the ghost, used when the run arrives after the timer started
+     * @param tick The tick to advance to
+     */
+    public skipTo(tick: number): void {
+        while (this.tick < tick && !this.isDone()) {
+            this.fixedUpdate();
+        }
+    }
+
+    /**
+     * Render the ghost player
+     * @param levelRenderer The renderer of the level being played
+     */
+    public render(levelRenderer: LevelRenderer): void {
+        if (this.level.localPlayer) {
+            this.player.render(levelRenderer);
+        }
+    }
+}
@@ -1,12 +1,14 @@
 import { Level } from './Level';
 import { Game } from './Game';
 import { Serialize } from './Serialize';
+import { TriggerActionType } from './ActionArea';
 
 export const drop_level = {
   "name": "Custom Level",
   "author": "Level Editor",
   "version": 1,
   "created": "2025-04-01T21:58:46.829Z",
+  "parTimes": [20, 12, 9],
   "platforms": [
     {
       "position": [
@@ -281,6 +283,7 @@ export const long_level = {
   "author": "Level Editor",
   "version": 1,
   "created": "2025-04-01T21:33:34.154Z",
+  "parTimes": [45, 28, 20],
   "platforms": [
     {
       "position": [
@@ -557,6 +560,21 @@ export const long_level = {
       "name": "updraft_1743543214154"
     }
   ],
+  "checkpoints": [
+    {
+      "position": [
+        -45,
+        120,
+        -72.7
+      ],
+      "size": [
+        8,
+        12,
+        14
+      ],
+      "name": "checkpoint_top"
+    }
+  ],
   "playerStartPosition": [
     -33.5,
     14,
@@ -569,6 +587,7 @@ export const simple_finish = {
   "author": "Level Editor",
   "version": 1,
   "created": "2025-04-01T20:19:44.343Z",
+  "parTimes": [25, 15, 11],
   "platforms": [
     {
       "position": [
@@ -728,6 +747,7 @@ export const first_level = {
   "author": "Level Editor",
   "version": 1,
   "created": "2025-04-01T17:49:17.144Z",
+  "parTimes": [25, 15, 11],
   "platforms": [
     {
       "position": [
@@ -920,6 +940,7 @@ export const tutorial_level = {
   "author": "Level Editor",
   "version": 1,
   "created": "2025-04-01T09:05:53.207Z",
+  "parTimes": [90, 60, 40],
   "platforms": [
     {
       "position": [
@@ -1094,10 +1115,10 @@ export const tutorial_level = {
 /**
  * Loads any JSON level data
  * @param level The Level instance to populate
- * @param game The Game instance for level switching
+ * @param game The Game instance for level switching, or null when running headless
  * @param levelData The JSON level data to load
  */
-export function loadJSONLevel(level: Level, game: Game, levelData: any, timed: boolean = false): void {
+export function loadJSONLevel(level: Level, game: Game | null, levelData: any, timed: boolean = false): void {
     console.log(`Loading JSON level: ${levelData.name}`);
     
     // Convert to string for serialization
@@ -1106,16 +1127,23 @@ export function loadJSONLevel(level: Level, game: Game, levelData: any, timed: b
     // Use the existing Serialize.loadLevelFromString method
     const success = Serialize.loadLevelFromString(level, jsonString);
 
-    // Go over all action areas and set the callback to go back to the overworld
+    // Action areas without actions are the finish, set their callback to go back to the overworld
     level.actionAreas.forEach(area => {
+        if (area.actions.length > 0) {
+          if (area.actions.some(action => action.type === TriggerActionType.FinishLevel)) {
+            level.lockUntilCollected(area);
+          }
+          return;
+        }
         area.callback = () => {
           if (timed) {
             level.levelFinished();
           } else {
-            game.switchLevel(0);
+            game?.switchLevel(0);
           }
         };
         area.triggerOnce = true;
+        level.lockUntilCollected(area);
     });
     
     if (success) {
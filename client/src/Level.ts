@@ -1,4 +1,4 @@
-// Level class with logic for handling level. No rendering. No refernce to Game class.
+// Level class with logic for handling level. No rendering. No reference to Game class.
 
 import * as THREE from 'three';
 import { LevelRenderer } from "./LevelRenderer";
@@ -7,24 +7,100 @@ import { RigidBody } from "./RigidBody";
 import { Rope } from "./Rope";
 import { Saw } from "./Saw";
 import { StaticBody } from "./StaticBody";
-import { ActionArea } from "./ActionArea";
+import { MovingPlatform } from "./MovingPlatform";
+import { ActionArea, TriggerAction, TriggerActionType } from "./ActionArea";
 import { Updraft } from "./Updraft";
-import { Game } from './Game';
+import { Checkpoint } from "./Checkpoint";
+import { Collectible } from "./Collectible";
 import { Entity } from './Entity';
 import { Sign } from './Sign';
+import { SimpleText } from './SimpleText';
+import { DEFAULT_SEED, Random } from '../../shared/Random';
+import { Verlet } from '../../shared/Verlet';
+import { Broadphase } from '../../shared/Broadphase';
+import { ContactManifold, SweepHit } from '../../shared/ConvexShape';
 
-// Split into pure logic such that it can be used in the backend when online mode.
+// Extra room around a player when looking up nearby bodies, particles move a bit while collisions are resolved
+const BROADPHASE_MARGIN = 1.0;
+
+// How far a swept particle is stopped inside the surface it hits, so the regular collision check resolves it
+const SWEEP_SKIN = 0.01;
+
+// Rigid body contact solver settings
+const RIGID_BODY_SOLVER_ITERATIONS = 10;
+const RIGID_BODY_CONTACT_MARGIN = 0.5; // Bodies closer than this are kept from closing the gap too fast in one tick
+const RIGID_BODY_SLOP = 0.01; // Overlap that is left alone so resting bodies keep touching
+const RIGID_BODY_CORRECTION = 0.4; // Part of the remaining overlap pushed out per tick
+const RIGID_BODY_PINNED_CORRECTION = 0.2; // Pinned bodies can't be moved out, they turn out with this part per tick instead
+const RIGID_BODY_BOUNCE_SPEED = 0.05; // Slower impacts don't bounce, otherwise resting bodies never settle
+const RIGID_BODY_REST_SPEED = 0.002; // Touching bodies slower than this stop, the solver leaves a little wobble otherwise
+// How heavy a player particle is when it shoves a simulated body
+const PLAYER_PARTICLE_MASS = 1.0;
+
+// Contact of a rigid body with the level or another rigid body, at least one side is simulated
+interface RigidBodyContact {
+    bodyA: RigidBody;
+    // Null when the other side is a static body or a moving platform
+    bodyB: RigidBody | null;
+    // Normal points from bodyA to the other side
+    manifold: ContactManifold;
+    // Normal speed each point should end up with, positive when bouncing off
+    targetSpeeds: number[];
+    // Two directions along the contact surface that friction works in
+    tangents: THREE.Vector3[];
+    // Normal impulse and impulse along each tangent collected per point over the solver iterations
+    impulses: number[];
+    frictionImpulses: number[][];
+}
+
+export enum LevelEventType {
+    PlayerDied,
+    AreaTriggered,
+    SawHit,
+    LevelFinished,
+    CheckpointReached,
+    PlayerRespawned,
+    ItemCollected,
+    ShowText,
+    SwitchLevel,
+}
+
+export interface LevelEvent {
+    type: LevelEventType;
+    player?: Player;
+    position?: THREE.Vector3;
+    velocity?: THREE.Vector3;
+    actionArea?: ActionArea;
+    checkpoint?: Checkpoint;
+    collectible?: Collectible;
+    text?: string;
+    levelIdx?: number;
+}
+
+// Pure simulation logic such that it can be used in the backend. Outcomes are reported as events.
 export class Level {
-    public game: Game;
     public levelIdx: number;
 
+    // Set once the level goal has been reached
+    public isFinished: boolean = false;
+
     public entities: Entity[] = [];
 
     public playerStartPosition: THREE.Vector3 = new THREE.Vector3(0, 5, 0);
 
+    // Times in seconds to beat for 1, 2 and 3 stars, empty when the level awards no stars
+    public parTimes: number[] = [];
+
     // Static bodies collection for collision detection
     public staticBodies: StaticBody[] = [];
 
+    // Spatial index over static bodies, saws, updrafts and action areas.
+    // Call updateBroadphase after moving one of them outside of the simulation, like in the editor.
+    public broadphase: Broadphase<Entity> = new Broadphase();
+
+    // Platforms following keyframed paths, players collide with them like with static bodies
+    public movingPlatforms: MovingPlatform[] = [];
+
     // Dynamic bodies collection (similar to static bodies)
     public dynamicBodies: RigidBody[] = [];
 
@@ -51,12 +127,45 @@ export class Level {
     // Add signs collection
     public signs: Sign[] = [];
 
-    constructor(game: Game, levelIdx: number) {
+    // Checkpoints in course order, the last one reached is where the local player respawns
+    public checkpoints: Checkpoint[] = [];
+    public activeCheckpoint: Checkpoint | null = null;
+
+    // Gems to pick up, with the option to keep the finish locked until all of them are collected
+    public collectibles: Collectible[] = [];
+    public requireAllCollectibles: boolean = false;
+    public lockedAreas: ActionArea[] = [];
+
+    // Best star counts shown at the overworld portals, by target level
+    public starLabels: Map<number, SimpleText> = new Map();
+
+    // Seeded random source for everything inside the simulation.
+    // Each player gets its own stream from the same seed so other players never shift its sequence.
+    public random: Random;
+
+    // Listeners for level events (the game reacts to them, headless levels may have none)
+    private eventListeners: ((event: LevelEvent) => void)[] = [];
+
+    constructor(levelIdx: number, seed: number = DEFAULT_SEED) {
         // Initialize particle system
         this.players = new Map();
         this.localPlayer = null;
-        this.game = game;
         this.levelIdx = levelIdx;
+        this.random = new Random(seed);
+    }
+
+    /**
+     * Register a listener for level events
+     * @param listener Function called for every event emitted by the level
+     */
+    public addEventListener(listener: (event: LevelEvent) => void): void {
+        this.eventListeners.push(listener);
+    }
+
+    private emitEvent(event: LevelEvent): void {
+        for (const listener of this.eventListeners) {
+            listener(event);
+        }
     }
 
     /**
@@ -68,11 +177,24 @@ export class Level {
         this.staticBodies.push(body);
         this.levelRenderer?.scene.add(body.mesh);
         this.entities.push(body);
+        this.broadphase.insert(body, body.shape.getBoundingBox());
         return body;
     }
 
+    /**
+     * Add a moving platform to the level
+     * @param platform The moving platform to add
+     * @returns The added moving platform
+     */
+    public addMovingPlatform(platform: MovingPlatform): MovingPlatform {
+        this.movingPlatforms.push(platform);
+        this.levelRenderer?.scene.add(platform.mesh);
+        this.entities.push(platform);
+        return platform;
+    }
+
     public addPlayer(id: string, isLocal: boolean = false, username: string = ""): Player {
-        const player = new Player(id, isLocal, username);
+        const player = new Player(id, isLocal, username, new Random(this.random.seed));
         this.players.set(id, player);
         
         // Move player to start on high platform if it's the local player
@@ -112,12 +234,22 @@ export class Level {
         // Update the local player's forward vector and handle input
         if (this.localPlayer) {
             // Check if player has fallen below y=0
-            if (this.localPlayer.getPosition().y < 0) {
-                this.game.switchLevel(this.levelIdx);
-                this.levelRenderer?.spawnSawCollisionParticles(
-                    this.localPlayer.getPosition(),
-                    new THREE.Vector3(0, 2, 0)
-                );
+            const position = this.localPlayer.getPosition();
+            if (position.y < 0 && this.activeCheckpoint) {
+                // Respawning is part of the simulation, so replays and ghosts respawn the same way
+                this.localPlayer.respawn(this.activeCheckpoint.getRespawnPosition());
+                this.emitEvent({
+                    type: LevelEventType.PlayerRespawned,
+                    player: this.localPlayer,
+                    position: position,
+                    checkpoint: this.activeCheckpoint
+                });
+            } else if (position.y < 0) {
+                this.emitEvent({
+                    type: LevelEventType.PlayerDied,
+                    player: this.localPlayer,
+                    position: position
+                });
                 this.removePlayer(this.localPlayer.id);
                 this.localPlayer = null;
                 return;
@@ -127,12 +259,18 @@ export class Level {
             this.localPlayer.handleInput(inputs.playerInput);
         }
 
+        // Move the platforms before the players, carrying along whoever stood on them last tick
+        this.movingPlatforms.forEach(platform => platform.fixedUpdate());
+
         // Update all players
         this.players.forEach(player => {
             player.fixedUpdate();
             
-            // Add rope interaction check
-            this.checkPlayerRopeInteraction(player, inputs.playerInput.space);
+            // Add rope interaction check, only for the local player since the input is ours
+            // and remote players must not change the simulation of a recorded run
+            if (player === this.localPlayer) {
+                this.checkPlayerRopeInteraction(player, inputs.playerInput.space);
+            }
             
             // Check collisions with static bodies after player movement
             this.checkPlayerCollisions(player);
@@ -164,12 +302,41 @@ export class Level {
         // Update the circular path for moving saws
         this.updateSawPaths();
 
+        // Check collectibles before the action areas, so picking up the last gem in the finish unlocks it right away
+        if (this.localPlayer) {
+            for (const collectible of this.collectibles) {
+                if (collectible.checkPlayerCollision(this.localPlayer)) {
+                    this.collectItem(collectible);
+                }
+            }
+        }
+
         // Check action areas
         if (this.localPlayer) {
             const playerPos = this.localPlayer.getPosition();
-            for (const actionArea of this.actionAreas) {
+            const nearbyAreas = this.broadphase.query(new THREE.Box3(playerPos.clone(), playerPos.clone()))
+                .filter((entity): entity is ActionArea => entity instanceof ActionArea);
+            for (const actionArea of nearbyAreas) {
                 if (actionArea.checkCollision(playerPos)) {
                     actionArea.trigger();
+                    this.emitEvent({
+                        type: LevelEventType.AreaTriggered,
+                        player: this.localPlayer,
+                        actionArea: actionArea
+                    });
+                }
+            }
+            
+            // Check checkpoints, each one is reached once
+            for (const checkpoint of this.checkpoints) {
+                if (!checkpoint.reached && checkpoint.checkCollision(playerPos)) {
+                    checkpoint.reached = true;
+                    this.activeCheckpoint = checkpoint;
+                    this.emitEvent({
+                        type: LevelEventType.CheckpointReached,
+                        player: this.localPlayer,
+                        checkpoint: checkpoint
+                    });
                 }
             }
             
@@ -192,69 +359,293 @@ export class Level {
     public checkPlayerCollisions(player: Player): void {
         // Get all particles from the player's verlet body
         const particles = player.getBody().getParticles();
+        const staticBodies = this.getNearbyEntities(player)
+            .filter((entity): entity is StaticBody => entity instanceof StaticBody);
         
-        // Check collision for each particle against each static body
+        // Check collision for each particle against each static body nearby
         for (const particle of particles) {
+            this.sweepParticle(particle, staticBodies);
+
             // Use the particle's position and radius for collision detection
             const particlePosition = particle.position;
             const particleRadius = particle.radius;
             
             // Check collision with each static body
-            for (const body of this.staticBodies) {
+            for (const body of staticBodies) {
                 const translation = body.collideWithSphere(particlePosition, particleRadius);
                 
                 // If collision detected, resolve it
                 if (translation) {
-                    player.hitPlatform(translation);
-                    // Move the particle out of collision using the MTV
-                    particlePosition.add(translation);
-                    
-                    // Compute velocity vector
-                    const velocity = new THREE.Vector3().subVectors(
-                        particlePosition,
-                        particle.previousPosition
-                    );
-                    
-                    // Get the normal from the translation vector
-                    const normal = translation.clone().normalize();
-                    
-                    // Project velocity onto normal and tangent planes
-                    const velAlongNormal = velocity.dot(normal);
-                    const normalComponent = normal.clone().multiplyScalar(velAlongNormal);
-                    const tangentComponent = velocity.clone().sub(normalComponent);
-                    
-                    // Apply friction to tangential component
-                    const friction = 0.2; // Friction coefficient (1 = no friction, 0 = full friction)
-                    tangentComponent.multiplyScalar(friction);
-                    
-                    // New velocity is just the tangential component (no bounce)
-                    const newVelocity = tangentComponent;
-                    
-                    // Update the previous position to create this new velocity
-                    particle.previousPosition.copy(particlePosition).sub(newVelocity);
+                    this.resolveStaticContact(player, particle, translation);
+                }
+            }
+            
+            // Moving platforms carry the players standing on top of them in the next tick
+            for (const platform of this.movingPlatforms) {
+                const translation = platform.shape.collideWithSphere(particlePosition, particleRadius);
+                if (translation) {
+                    this.resolveStaticContact(player, particle, translation);
+                    if (translation.y > 0.5 * translation.length()) {
+                        platform.riders.add(player.getBody());
+                    }
                 }
             }
         }
     }
 
+    /**
+     * Stop a particle that moved further than its radius this tick at the first static body on its way.
+     * Otherwise a fast fall can carry it through a thin platform without it ever overlapping.
+     * @param particle The particle, moved from its previous position to its position this tick
+     * @param staticBodies The static bodies near the player
+     */
+    private sweepParticle(particle: Verlet, staticBodies: StaticBody[]): void {
+        const start = particle.previousPosition;
+        const end = particle.position;
+        if (start.distanceToSquared(end) <= particle.radius * particle.radius) return;
+
+        let firstHit: SweepHit | null = null;
+        for (const body of staticBodies) {
+            const hit = body.shape.sweepSphere(start, end, particle.radius);
+            // Bodies the particle touched already at the start are left to the regular check
+            if (hit && hit.time > 0 && (!firstHit || hit.time < firstHit.time)) {
+                firstHit = hit;
+            }
+        }
+
+        if (firstHit) {
+            particle.position.copy(firstHit.center).addScaledVector(firstHit.normal, -SWEEP_SKIN);
+        }
+    }
+
+    /**
+     * Push a particle out of a body that doesn't move from the collision, keeping only damped sliding
+     * @param player The player the particle belongs to
+     * @param particle The colliding particle
+     * @param translation Minimum translation vector out of the body
+     */
+    private resolveStaticContact(player: Player, particle: Verlet, translation: THREE.Vector3): void {
+        const particlePosition = particle.position;
+        player.hitPlatform(translation);
+        // Move the particle out of collision using the MTV
+        particlePosition.add(translation);
+        
+        // Compute velocity vector
+        const velocity = new THREE.Vector3().subVectors(
+            particlePosition,
+            particle.previousPosition
+        );
+        
+        // Get the normal from the translation vector
+        const normal = translation.clone().normalize();
+        
+        // Project velocity onto normal and tangent planes
+        const velAlongNormal = velocity.dot(normal);
+        const normalComponent = normal.clone().multiplyScalar(velAlongNormal);
+        const tangentComponent = velocity.clone().sub(normalComponent);
+        
+        // Apply friction to tangential component
+        const friction = 0.2; // Friction coefficient (1 = no friction, 0 = full friction)
+        tangentComponent.multiplyScalar(friction);
+        
+        // New velocity is just the tangential component (no bounce)
+        const newVelocity = tangentComponent;
+        
+        // Update the previous position to create this new velocity
+        particle.previousPosition.copy(particlePosition).sub(newVelocity);
+    }
+
     /**
      * Update all dynamic bodies - always using fixed timestep
      */
     private updateDynamicBodies(): void {
+        // Simulated bodies get their velocities from gravity and contacts before they move
+        if (this.dynamicBodies.some(body => body.simulated)) {
+            this.solveRigidBodyContacts();
+        }
+
         this.dynamicBodies.forEach(body => {
             // Update physics with no timestep parameter
             body.update();
             
-            // Apply constraints and boundaries
-            this.applyDynamicBodyBoundaries(body);
+            // Apply constraints and boundaries, simulated bodies are held by their contacts instead
+            if (!body.simulated) {
+                this.applyDynamicBodyBoundaries(body);
+            }
         });
         
         // Update all saws
         this.saws.forEach(saw => {
             saw.update();
+            this.broadphase.update(saw, saw.getBoundingBox());
         });
     }
     
+    /**
+     * Apply gravity to simulated bodies and resolve their contacts with sequential impulses.
+     * Contacts come from the poses before the bodies move, bodies that are close but apart get a contact too
+     * so they stop at the surface instead of sinking in. Overlap that is left is pushed out directly.
+     */
+    private solveRigidBodyContacts(): void {
+        this.dynamicBodies.forEach(body => {
+            if (!body.simulated) return;
+            // Pinned bodies only turn, gravity pulls on their center which can't move
+            if (body.pinned) {
+                body.velocity.set(0, 0, 0);
+            } else {
+                body.velocity.y -= body.gravity;
+            }
+            body.velocity.multiplyScalar(body.damping);
+            body.angularVelocity.multiplyScalar(body.damping);
+        });
+
+        const contacts = this.findRigidBodyContacts();
+        for (let iteration = 0; iteration < RIGID_BODY_SOLVER_ITERATIONS; iteration++) {
+            contacts.forEach(contact => this.solveRigidBodyContact(contact));
+        }
+        contacts.forEach(contact => this.separateRigidBodies(contact));
+
+        // Let touching bodies come to rest
+        contacts.forEach(contact => {
+            [contact.bodyA, contact.bodyB].forEach(body => {
+                if (body && body.simulated && body.velocity.length() < RIGID_BODY_REST_SPEED &&
+                    body.angularVelocity.length() < RIGID_BODY_REST_SPEED) {
+                    body.velocity.set(0, 0, 0);
+                    body.angularVelocity.set(0, 0, 0);
+                }
+            });
+        });
+    }
+
+    /**
+     * Find the contacts of simulated bodies with static bodies, moving platforms and the other dynamic bodies
+     */
+    private findRigidBodyContacts(): RigidBodyContact[] {
+        const contacts: RigidBodyContact[] = [];
+        const addContact = (bodyA: RigidBody, bodyB: RigidBody | null, manifold: ContactManifold | null) => {
+            if (!manifold) return;
+            // Bounce speeds are fixed before solving, the iterations would otherwise bounce off their own impulses
+            const canSeparate = this.getSeparationShare(bodyA) + this.getSeparationShare(bodyB) > 0;
+            const targetSpeeds = manifold.points.map(point => {
+                // Points that are still apart may close the gap, but not pass through in this tick
+                if (point.depth < 0) return point.depth;
+                const normalSpeed = this.getRelativeVelocity(bodyA, bodyB, point.position).dot(manifold.normal);
+                const restitution = Math.max(bodyA.restitution, bodyB ? bodyB.restitution : 0);
+                const bounce = normalSpeed < -RIGID_BODY_BOUNCE_SPEED ? -normalSpeed * restitution : 0;
+                // Overlap that separateRigidBodies can't move out is turned out by the solver
+                const push = canSeparate ? 0 : Math.max(point.depth - RIGID_BODY_SLOP, 0) * RIGID_BODY_PINNED_CORRECTION;
+                return Math.max(bounce, push);
+            });
+            const normal = manifold.normal;
+            const up = Math.abs(normal.y) < 0.9 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0);
+            const tangent = new THREE.Vector3().crossVectors(normal, up).normalize();
+            contacts.push({
+                bodyA,
+                bodyB,
+                manifold,
+                targetSpeeds,
+                tangents: [tangent, new THREE.Vector3().crossVectors(normal, tangent)],
+                impulses: manifold.points.map(() => 0),
+                frictionImpulses: manifold.points.map(() => [0, 0])
+            });
+        };
+
+        this.dynamicBodies.forEach((body, index) => {
+            if (body.simulated) {
+                const bounds = body.shape.boundingBox.clone().expandByScalar(BROADPHASE_MARGIN);
+                this.broadphase.query(bounds)
+                    .filter((entity): entity is StaticBody => entity instanceof StaticBody)
+                    .forEach(staticBody => addContact(body, null, body.shape.collideWithConvex(staticBody.shape, RIGID_BODY_CONTACT_MARGIN)));
+                this.movingPlatforms.forEach(platform => addContact(body, null, body.shape.collideWithConvex(platform.shape, RIGID_BODY_CONTACT_MARGIN)));
+            }
+
+            // Bodies driven by customUpdate pass through each other like before
+            for (let i = index + 1; i < this.dynamicBodies.length; i++) {
+                const other = this.dynamicBodies[i];
+                if (!body.simulated && !other.simulated) continue;
+                addContact(body, other, body.shape.collideWithConvex(other.shape, RIGID_BODY_CONTACT_MARGIN));
+            }
+        });
+        return contacts;
+    }
+
+    // Velocity of the other side relative to bodyA at a point
+    private getRelativeVelocity(bodyA: RigidBody, bodyB: RigidBody | null, point: THREE.Vector3): THREE.Vector3 {
+        const velocityB = bodyB ? bodyB.getVelocityAt(point) : new THREE.Vector3();
+        return velocityB.sub(bodyA.getVelocityAt(point));
+    }
+
+    /**
+     * One solver pass over a contact: stop the points from closing in, then take away sliding with friction
+     */
+    private solveRigidBodyContact(contact: RigidBodyContact): void {
+        const { bodyA, bodyB, manifold } = contact;
+        const normal = manifold.normal;
+        const friction = bodyB ? Math.sqrt(bodyA.friction * bodyB.friction) : bodyA.friction;
+
+        manifold.points.forEach((point, i) => {
+            const position = point.position;
+            const normalMass = bodyA.getInverseMassAt(position, normal) + (bodyB ? bodyB.getInverseMassAt(position, normal) : 0);
+            if (normalMass <= 0) return;
+
+            // Impulses add up over the iterations but the total may only push the bodies apart
+            const normalSpeed = this.getRelativeVelocity(bodyA, bodyB, position).dot(normal);
+            const total = Math.max(contact.impulses[i] + (contact.targetSpeeds[i] - normalSpeed) / normalMass, 0);
+            const normalImpulse = total - contact.impulses[i];
+            contact.impulses[i] = total;
+            this.applyContactImpulse(bodyA, bodyB, normal.clone().multiplyScalar(normalImpulse), position);
+
+            // Friction can't be stronger than the push holding the points together
+            const maxFriction = friction * contact.impulses[i];
+            contact.tangents.forEach((tangent, j) => {
+                const tangentMass = bodyA.getInverseMassAt(position, tangent) + (bodyB ? bodyB.getInverseMassAt(position, tangent) : 0);
+                if (tangentMass <= 0) return;
+                const tangentSpeed = this.getRelativeVelocity(bodyA, bodyB, position).dot(tangent);
+                const previous = contact.frictionImpulses[i][j];
+                const frictionTotal = THREE.MathUtils.clamp(previous - tangentSpeed / tangentMass, -maxFriction, maxFriction);
+                contact.frictionImpulses[i][j] = frictionTotal;
+                this.applyContactImpulse(bodyA, bodyB, tangent.clone().multiplyScalar(frictionTotal - previous), position);
+            });
+        });
+    }
+
+    // Apply an impulse to the other side and the opposite one to bodyA, bodies that aren't simulated ignore it
+    private applyContactImpulse(bodyA: RigidBody, bodyB: RigidBody | null, impulse: THREE.Vector3, point: THREE.Vector3): void {
+        if (bodyB?.simulated) {
+            bodyB.applyImpulse(impulse, point);
+        }
+        if (bodyA.simulated) {
+            bodyA.applyImpulse(impulse.clone().negate(), point);
+        }
+    }
+
+    /**
+     * Move overlapping bodies apart along the contact normal, the lighter body moves further
+     */
+    private separateRigidBodies(contact: RigidBodyContact): void {
+        const { bodyA, bodyB, manifold } = contact;
+        const correction = Math.max(manifold.depth - RIGID_BODY_SLOP, 0) * RIGID_BODY_CORRECTION;
+        if (correction <= 0) return;
+
+        const shareA = this.getSeparationShare(bodyA);
+        const shareB = this.getSeparationShare(bodyB);
+        if (shareA + shareB <= 0) return;
+
+        if (shareA > 0) {
+            bodyA.shape.position.addScaledVector(manifold.normal, -correction * shareA / (shareA + shareB));
+            bodyA.shape.updateTransform();
+        }
+        if (bodyB && shareB > 0) {
+            bodyB.shape.position.addScaledVector(manifold.normal, correction * shareB / (shareA + shareB));
+            bodyB.shape.updateTransform();
+        }
+    }
+
+    // How much a body moves when overlap is pushed out, static, pinned and kinematic bodies stay put
+    private getSeparationShare(body: RigidBody | null): number {
+        return body && body.simulated && !body.pinned ? body.invMass : 0;
+    }
+
     /**
      * Apply boundary conditions to dynamic bodies to create movement patterns
      */
@@ -377,6 +768,13 @@ export class Level {
                     
                     // Update the previous position to create this new velocity
                     particle.previousPosition.copy(particlePosition).sub(newParticleVelocity);
+
+                    // Simulated bodies are shoved back, the particle still comes out in full so they feel solid.
+                    // Only the local player pushes them: remote players come from the network and aren't in
+                    // replays, so their pushes would make the bodies differ from the server and ghost simulations.
+                    if (body.simulated && player === this.localPlayer) {
+                        body.applyImpulse(translation.clone().multiplyScalar(-PLAYER_PARTICLE_MASS), contactPoint);
+                    }
                 }
             }
         }
@@ -473,6 +871,7 @@ export class Level {
         this.levelRenderer?.scene.add(saw.mesh);
         this.entities.push(saw);
         saw.body.shape.updateTransform();
+        this.broadphase.insert(saw, saw.getBoundingBox());
         return saw;
     }
     
@@ -483,14 +882,15 @@ export class Level {
     public checkPlayerSawCollisions(player: Player): void {
         // Get all particles from the player's verlet body
         const particles = player.getBody().getParticles();
+        const saws = this.getNearbyEntities(player).filter((entity): entity is Saw => entity instanceof Saw);
         
-        // Check collision for each particle against each saw
+        // Check collision for each particle against each saw nearby
         for (const particle of particles) {
             const particlePosition = particle.position;
             const particleRadius = particle.radius;
             
-            // Check against all saws - treat them just like any other rigid body
-            for (const saw of this.saws) {
+            // Check against the saws - treat them just like any other rigid body
+            for (const saw of saws) {
                 const translation = saw.body.shape.collideWithSphere(particlePosition, particleRadius);
                 
                 // If collision detected, resolve it normally
@@ -515,11 +915,13 @@ export class Level {
                     // Update the previous position to create this new velocity
                     particle.previousPosition.copy(particlePosition).sub(newVelocity);
 
-                    // Spawn particles at the contact point
-                    this.levelRenderer?.spawnSawCollisionParticles(
-                        contactPoint,
-                        bodyVelocity
-                    );
+                    // Report the hit so the renderer can spawn particles at the contact point
+                    this.emitEvent({
+                        type: LevelEventType.SawHit,
+                        player: player,
+                        position: contactPoint,
+                        velocity: bodyVelocity
+                    });
 
                     // Let loose of rope if player is holding it
                     if (player.rope) {
@@ -537,6 +939,8 @@ export class Level {
         // Update each saw's physics body
         for (const saw of this.saws) {
             saw.update();
+            saw.updatePath();
+            this.broadphase.update(saw, saw.getBoundingBox());
         }
     }
 
@@ -557,6 +961,7 @@ export class Level {
         const actionArea = new ActionArea(position, size, callback, triggerOnce);
         this.actionAreas.push(actionArea);
         this.entities.push(actionArea);
+        this.broadphase.insert(actionArea, actionArea.getBoundingBox());
         return actionArea;
     }
 
@@ -575,15 +980,75 @@ export class Level {
         const updraft = new Updraft(position, size, strength);
         this.updrafts.push(updraft);
         this.entities.push(updraft);
+        this.broadphase.insert(updraft, updraft.getBoundingBox());
         return updraft;
     }
 
+    /**
+     * Add a checkpoint to the level
+     * @param position Center of the checkpoint area, where the player respawns
+     * @param size Size of the checkpoint area
+     * @returns The created checkpoint
+     */
+    public addCheckpoint(position: THREE.Vector3, size: THREE.Vector3): Checkpoint {
+        const checkpoint = new Checkpoint(position, size);
+        this.checkpoints.push(checkpoint);
+        this.entities.push(checkpoint);
+        return checkpoint;
+    }
+
+    /**
+     * Add a collectible gem to the level
+     * @param position Center of the gem
+     * @param radius Pickup radius of the gem
+     * @returns The created collectible
+     */
+    public addCollectible(position: THREE.Vector3, radius: number = 1.0): Collectible {
+        const collectible = new Collectible(position, radius);
+        this.collectibles.push(collectible);
+        this.entities.push(collectible);
+        return collectible;
+    }
+
+    /**
+     * Get the number of gems picked up so far
+     */
+    public getCollectedCount(): number {
+        return this.collectibles.filter(collectible => collectible.collected).length;
+    }
+
+    /**
+     * Keep an action area inactive until all gems are collected, if the level requires them
+     * @param area The area to lock, usually the finish
+     */
+    public lockUntilCollected(area: ActionArea): void {
+        if (!this.requireAllCollectibles || this.getCollectedCount() === this.collectibles.length) return;
+        area.setActive(false);
+        this.lockedAreas.push(area);
+    }
+
+    private collectItem(collectible: Collectible): void {
+        collectible.collected = true;
+        this.emitEvent({
+            type: LevelEventType.ItemCollected,
+            player: this.localPlayer!,
+            position: collectible.shape.position.clone(),
+            collectible: collectible
+        });
+
+        if (this.getCollectedCount() === this.collectibles.length) {
+            this.lockedAreas.forEach(area => area.setActive(true));
+            this.lockedAreas = [];
+        }
+    }
+
     /**
      * Check if a player is within any updraft and apply effects
      * @param player The player to check
      */
     private checkPlayerUpdraftCollisions(player: Player): void {
-        for (const updraft of this.updrafts) {
+        const updrafts = this.getNearbyEntities(player).filter((entity): entity is Updraft => entity instanceof Updraft);
+        for (const updraft of updrafts) {
             if (updraft.isActiveState()) {
                 // Use the update method to check and apply updraft physics
                 updraft.updateForPlayer(player);
@@ -591,6 +1056,31 @@ export class Level {
         }
     }
 
+    /**
+     * Find the indexed entities around all particles of a player
+     * @param player The player to look around
+     * @returns Entities whose bounding box is near the player, in the order they were added
+     */
+    private getNearbyEntities(player: Player): Entity[] {
+        const bounds = new THREE.Box3();
+        let radius = 0;
+        for (const particle of player.getBody().getParticles()) {
+            // Include where the particles came from, fast particles are swept from there
+            bounds.expandByPoint(particle.position);
+            bounds.expandByPoint(particle.previousPosition);
+            radius = Math.max(radius, particle.radius);
+        }
+        return this.broadphase.query(bounds.expandByScalar(radius + BROADPHASE_MARGIN));
+    }
+
+    /**
+     * Update the spatial index after an entity was moved or resized, like from the editor
+     * @param entity The entity whose shape changed
+     */
+    public updateBroadphase(entity: Entity): void {
+        this.broadphase.update(entity, entity.getBoundingBox());
+    }
+
     /**
      * Check if a player with the given ID exists
      * @param id The player ID to check
@@ -612,8 +1102,109 @@ export class Level {
 
     public levelFinished() : void
     {
-        this.game.timedLevelFinished();
-        this.game.switchLevel(0);
+        // Areas that trigger every tick would finish the level again
+        if (this.isFinished) return;
+        this.isFinished = true;
+        this.emitEvent({ type: LevelEventType.LevelFinished });
+    }
+
+    /**
+     * Find an entity by the name it has in the level data
+     * @param name The name to look for
+     * @returns The entity, or undefined if no entity has that name
+     */
+    public findEntityByName(name: string): Entity | undefined {
+        return this.entities.find(entity =>
+            entity.name === name || (entity instanceof StaticBody && entity.mesh.name === name)
+        );
+    }
+
+    /**
+     * Turn the declarative actions of an action area into its callback.
+     * Targets are looked up once, so this has to run after the whole level is loaded.
+     * @param actions The actions to run in order when the area triggers
+     * @returns Callback for the action area
+     */
+    public createActionCallback(actions: TriggerAction[]): () => void {
+        const steps: (() => void)[] = [];
+
+        actions.forEach(action => {
+            switch (action.type) {
+                case TriggerActionType.Teleport: {
+                    if (!Array.isArray(action.position) || action.position.length !== 3) {
+                        console.warn("Teleport action without a valid position");
+                        return;
+                    }
+                    const position = new THREE.Vector3(action.position[0], action.position[1], action.position[2]);
+                    steps.push(() => {
+                        if (!this.localPlayer) return;
+                        this.localPlayer.rope = null;
+                        this.localPlayer.setPosition(position);
+                    });
+                    break;
+                }
+                case TriggerActionType.ToggleActive: {
+                    const target = action.target ? this.findEntityByName(action.target) : undefined;
+                    if (!(target instanceof ActionArea) && !(target instanceof Updraft)) {
+                        console.warn(`Toggle action target "${action.target}" is not an action area or updraft`);
+                        return;
+                    }
+                    steps.push(() => target.setActive(!target.isActiveState()));
+                    break;
+                }
+                case TriggerActionType.ShowText: {
+                    const text = action.text ?? "";
+                    steps.push(() => this.emitEvent({ type: LevelEventType.ShowText, player: this.localPlayer!, text }));
+                    break;
+                }
+                case TriggerActionType.SetCheckpoint: {
+                    const target = action.target ? this.findEntityByName(action.target) : undefined;
+                    if (!(target instanceof Checkpoint)) {
+                        console.warn(`Checkpoint action target "${action.target}" is not a checkpoint`);
+                        return;
+                    }
+                    steps.push(() => {
+                        target.reached = true;
+                        this.activeCheckpoint = target;
+                    });
+                    break;
+                }
+                case TriggerActionType.SetGravity: {
+                    const gravityScale = typeof action.gravityScale === 'number' ? action.gravityScale : 1.0;
+                    steps.push(() => {
+                        if (this.localPlayer) {
+                            this.localPlayer.gravityScale = gravityScale;
+                        }
+                    });
+                    break;
+                }
+                case TriggerActionType.FinishLevel:
+                    steps.push(() => this.levelFinished());
+                    break;
+                case TriggerActionType.SwitchLevel: {
+                    if (typeof action.levelIdx !== 'number') {
+                        console.warn("Switch level action without a level index");
+                        return;
+                    }
+                    const levelIdx = action.levelIdx;
+                    steps.push(() => this.emitEvent({ type: LevelEventType.SwitchLevel, levelIdx }));
+                    break;
+                }
+                default:
+                    console.warn(`Unknown action type "${action.type}"`);
+            }
+        });
+
+        return () => steps.forEach(step => step());
+    }
+
+    /**
+     * Get the number of stars a completion time earns
+     * @param timeMs Completion time in milliseconds
+     * @returns The number of par times beaten
+     */
+    public starsForTime(timeMs: number): number {
+        return this.parTimes.filter(parTime => timeMs <= parTime * 1000).length;
     }
 
     /**
@@ -679,6 +1270,7 @@ export class Level {
         
         // Remove from entities array
         this.entities.splice(entityIndex, 1);
+        this.broadphase.remove(entity);
         
         // Check entity type and remove from specific collections
         if (entity instanceof StaticBody) {
@@ -687,6 +1279,12 @@ export class Level {
             if (sbIndex !== -1) {
                 this.staticBodies.splice(sbIndex, 1);
             }
+        } else if (entity instanceof MovingPlatform) {
+            // Remove from moving platforms
+            const mpIndex = this.movingPlatforms.findIndex(mp => mp === entity);
+            if (mpIndex !== -1) {
+                this.movingPlatforms.splice(mpIndex, 1);
+            }
         } else if (entity instanceof Rope) {
             // Remove from ropes
             const ropeIndex = this.ropes.findIndex(r => r === entity);
@@ -723,6 +1321,21 @@ export class Level {
             if (upIndex !== -1) {
                 this.updrafts.splice(upIndex, 1);
             }
+        } else if (entity instanceof Checkpoint) {
+            // Remove from checkpoints
+            const checkpointIndex = this.checkpoints.findIndex(c => c === entity);
+            if (checkpointIndex !== -1) {
+                this.checkpoints.splice(checkpointIndex, 1);
+            }
+            if (this.activeCheckpoint === entity) {
+                this.activeCheckpoint = null;
+            }
+        } else if (entity instanceof Collectible) {
+            // Remove from collectibles
+            const collectibleIndex = this.collectibles.findIndex(c => c === entity);
+            if (collectibleIndex !== -1) {
+                this.collectibles.splice(collectibleIndex, 1);
+            }
         } else if (entity instanceof Sign) {
             // Remove from signs
             const signIndex = this.signs.findIndex(s => s === entity);
@@ -3,10 +3,9 @@ import { Game } from "./Game";
 import { Level } from "./Level";
 import { LevelRenderer } from './LevelRenderer';
 import { CameraMode } from './Camera';
-import { LevelBuilder } from './LevelBuilder';
 import { ConvexShape } from '../../shared/ConvexShape';
 import { RigidBody } from './RigidBody';
-import { StaticBody } from './StaticBody';
+import { PlatformShape, StaticBody } from './StaticBody';
 import { Rope } from './Rope';
 // Replace the import with a type declaration
 // import type { TransformControls as TransformControlsType } from 'three/examples/jsm/controls/TransformControls';
@@ -14,6 +13,7 @@ import { Box3, Box3Helper } from 'three';
 import { Serialize } from './Serialize';
 import { Saw } from './Saw';
 import { ActionArea } from './ActionArea';
+import { Easing, MovingPlatform, PathMode } from './MovingPlatform';
 import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
 
 // Define a generic type for TransformControls
@@ -43,6 +43,14 @@ export class LevelEditor {
     private scaleXInput: HTMLInputElement | null = null;
     private scaleYInput: HTMLInputElement | null = null;
     private scaleZInput: HTMLInputElement | null = null;
+    private nameInput: HTMLInputElement | null = null;
+
+    // Action list of the selected action area, edited as JSON
+    private actionsSection: HTMLDivElement | null = null;
+    private triggerOnceInput: HTMLInputElement | null = null;
+    private actionsInput: HTMLTextAreaElement | null = null;
+    private pathSection: HTMLDivElement | null = null;
+    private pathInput: HTMLTextAreaElement | null = null;
 
     // Add this property to your class
     private boundingBoxHelpers: THREE.Box3Helper[] = [];
@@ -216,6 +224,21 @@ export class LevelEditor {
         const addPlatformBtn = this.createButton('Add Platform', () => this.addPlatform());
         toolbar.appendChild(addPlatformBtn);
         
+        // Add Ramp and Cylinder buttons, platforms with other shapes
+        const addRampBtn = this.createButton('Add Ramp', () => this.addPlatform(PlatformShape.Wedge));
+        toolbar.appendChild(addRampBtn);
+        const addCylinderBtn = this.createButton('Add Cylinder', () => this.addPlatform(PlatformShape.Cylinder));
+        toolbar.appendChild(addCylinderBtn);
+        
+        // Add Moving Platform button
+        const addMovingPlatformBtn = this.createButton('Add Moving Platform', () => this.addMovingPlatform());
+        addMovingPlatformBtn.style.backgroundColor = '#CC6600'; // Orange to match moving platforms
+        toolbar.appendChild(addMovingPlatformBtn);
+        
+        // Add Waypoint button, extends the path of the selected moving platform
+        const addWaypointBtn = this.createButton('Add Waypoint', () => this.addWaypoint());
+        toolbar.appendChild(addWaypointBtn);
+        
         // Add Rope button
         const addRopeBtn = this.createButton('Add Rope', () => this.addRope());
         toolbar.appendChild(addRopeBtn);
@@ -234,10 +257,24 @@ export class LevelEditor {
         addUpdraftBtn.style.backgroundColor = '#66CCFF'; // Light blue to match updraft color
         toolbar.appendChild(addUpdraftBtn);
         
+        // Add Checkpoint button
+        const addCheckpointBtn = this.createButton('Add Checkpoint', () => this.addCheckpoint());
+        addCheckpointBtn.style.backgroundColor = '#FFAA00'; // Orange to match unreached checkpoints
+        toolbar.appendChild(addCheckpointBtn);
+        
         // Add Saw button
         const addSawBtn = this.createButton('Add Saw', () => this.addSaw());
         toolbar.appendChild(addSawBtn);
         
+        // Add Collectible button
+        const addCollectibleBtn = this.createButton('Add Collectible', () => this.addCollectible());
+        addCollectibleBtn.style.backgroundColor = '#DDAA00'; // Gold to match the gems
+        toolbar.appendChild(addCollectibleBtn);
+        
+        // Add toggle for locking the finish until all collectibles are picked up
+        const requireAllBtn = this.createButton('Toggle Collect All', () => this.toggleRequireAllCollectibles());
+        toolbar.appendChild(requireAllBtn);
+        
         // Add delete button 
         const deleteBtn = this.createButton('Delete Selected', () => this.deleteSelected());
         toolbar.appendChild(deleteBtn);
@@ -404,7 +441,9 @@ export class LevelEditor {
             const selectables = [
                 ...this.level.entities.map(entity => entity.getCollisionMesh()),
                 // Also include player start marker in selectables
-                ...this.levelRenderer.scene.children.filter(obj => obj.userData && obj.userData.isPlayerStart)
+                ...this.levelRenderer.scene.children.filter(obj => obj.userData && obj.userData.isPlayerStart),
+                // And the waypoints of moving platforms
+                ...this.levelRenderer.scene.children.filter(obj => obj.userData && obj.userData.waypointPlatform)
             ].filter(Boolean);
             
             // Check for intersections
@@ -459,6 +498,7 @@ export class LevelEditor {
         
         // Update transform panel with object values
         this.updateTransformPanel();
+        this.updateEntitySettings();
     }
     
     /**
@@ -507,8 +547,9 @@ export class LevelEditor {
 
     /**
      * Add a new platform at the camera's position
+     * @param platformShape Shape of the platform, a box unless given
      */
-    private addPlatform(): void {
+    private addPlatform(platformShape: PlatformShape = PlatformShape.Box): void {
         // Get position for the new platform
         const platformPos = this.getPlacePosition(10, -1);
         
@@ -519,18 +560,14 @@ export class LevelEditor {
         const platformName = `platform_${Date.now()}`;
         
         // Create platform at origin first
-        const platform = LevelBuilder.createHorizontalPlatform(
-            this.level,
-            new THREE.Vector3(0, 0, 0),
-            1, // width
-            1, // depth
-            1, // height
+        const platform = this.level.addStaticBody(StaticBody.createShaped(
+            platformShape,
             new THREE.MeshStandardMaterial({ 
                 color: color,
                 roughness: 0.7,
             }),
             platformName
-        );
+        ));
 
         // Set the shape's position to our desired world position
         let scale = new THREE.Vector3(4,4,4);
@@ -541,6 +578,7 @@ export class LevelEditor {
         
         // Update the transform which will cascade to the mesh
         platform.shape.updateTransform();
+        this.level.updateBroadphase(platform);
         
         // Add to scene if needed
         if (!platform.mesh.parent) {
@@ -553,6 +591,147 @@ export class LevelEditor {
         console.log(`Added new platform: ${platformName}`);
     }
     
+    /**
+     * Add a new moving platform at the camera's position, travelling back and forth to a second waypoint
+     */
+    private addMovingPlatform(): void {
+        const startPos = this.getPlacePosition(10, -1);
+        
+        const keyframes = [
+            { position: startPos.clone(), rotation: new THREE.Euler(), duration: 3, easing: Easing.EaseInOut },
+            { position: startPos.clone().add(new THREE.Vector3(10, 0, 0)), rotation: new THREE.Euler(), duration: 3, easing: Easing.EaseInOut }
+        ];
+        const platform = new MovingPlatform(
+            new THREE.Vector3(6, 1, 6),
+            keyframes,
+            PathMode.PingPong,
+            new THREE.MeshStandardMaterial({
+                color: 0xCC6600,
+                roughness: 0.7,
+            })
+        );
+        platform.name = `movingplatform_${Date.now()}`;
+        this.level.addMovingPlatform(platform);
+        
+        // Add to scene if needed
+        if (!platform.mesh.parent) {
+            this.levelRenderer.scene.add(platform.mesh);
+        }
+        
+        this.refreshWaypointMarkers();
+        this.selectObject(platform.mesh);
+        
+        console.log(`Added new moving platform: ${platform.name}`);
+    }
+    
+    /**
+     * Add a waypoint after the selected moving platform or waypoint
+     */
+    private addWaypoint(): void {
+        if (!this.selectedObject) return;
+        
+        let platform: MovingPlatform | undefined;
+        let index = 0;
+        if (this.selectedObject.userData.waypointPlatform) {
+            platform = this.selectedObject.userData.waypointPlatform as MovingPlatform;
+            index = this.selectedObject.userData.waypointIndex;
+        } else {
+            platform = this.level.movingPlatforms.find(p => p.mesh === this.selectedObject);
+        }
+        if (!platform) {
+            console.log("Select a moving platform or one of its waypoints to add a waypoint");
+            return;
+        }
+        
+        // Continue the path from the selected keyframe
+        const previous = platform.keyframes[index];
+        platform.keyframes.splice(index + 1, 0, {
+            position: previous.position.clone().add(new THREE.Vector3(10, 0, 0)),
+            rotation: previous.rotation.clone(),
+            duration: previous.duration,
+            easing: previous.easing
+        });
+        
+        this.refreshWaypointMarkers();
+        const marker = this.levelRenderer.scene.children.find(obj =>
+            obj.userData.waypointPlatform === platform && obj.userData.waypointIndex === index + 1
+        );
+        if (marker) {
+            this.selectObject(marker);
+        }
+    }
+    
+    /**
+     * Recreate the waypoint markers and path lines of all moving platforms
+     */
+    private refreshWaypointMarkers(): void {
+        const oldMarkers = this.levelRenderer.scene.children.filter(obj =>
+            obj.userData.waypointPlatform || obj.userData.waypointPath
+        );
+        oldMarkers.forEach(obj => this.levelRenderer.scene.remove(obj));
+        
+        this.level.movingPlatforms.forEach(platform => {
+            // The platform itself marks the first keyframe, so markers start at the second one
+            platform.keyframes.forEach((keyframe, index) => {
+                if (index === 0) return;
+                const marker = new THREE.Mesh(
+                    new THREE.BoxGeometry(1, 1, 1),
+                    new THREE.MeshStandardMaterial({
+                        color: 0xCC6600,
+                        transparent: true,
+                        opacity: 0.4,
+                    })
+                );
+                marker.position.copy(keyframe.position);
+                marker.rotation.copy(keyframe.rotation);
+                marker.scale.copy(platform.shape.scaling);
+                marker.name = `${platform.name} waypoint ${index}`;
+                marker.userData.waypointPlatform = platform;
+                marker.userData.waypointIndex = index;
+                this.levelRenderer.scene.add(marker);
+            });
+            
+            const path = new THREE.Line(
+                new THREE.BufferGeometry(),
+                new THREE.LineBasicMaterial({ color: 0xCC6600 })
+            );
+            path.userData.waypointPath = platform;
+            this.levelRenderer.scene.add(path);
+            this.updateWaypointMarkers(platform);
+        });
+    }
+    
+    /**
+     * Match the waypoint markers and path line of a moving platform to its keyframes and size
+     */
+    private updateWaypointMarkers(platform: MovingPlatform): void {
+        this.levelRenderer.scene.children.forEach(obj => {
+            if (obj.userData.waypointPlatform === platform) {
+                obj.scale.copy(platform.shape.scaling);
+            } else if (obj.userData.waypointPath === platform && obj instanceof THREE.Line) {
+                const points = platform.keyframes.map(keyframe => keyframe.position.clone());
+                // Loops travel from the last keyframe back to the first
+                if (platform.mode === PathMode.Loop && points.length > 0) {
+                    points.push(points[0].clone());
+                }
+                obj.geometry.setFromPoints(points);
+            }
+        });
+    }
+    
+    /**
+     * Copy the transform of a waypoint marker into its keyframe
+     */
+    private moveWaypoint(marker: THREE.Object3D): void {
+        const platform = marker.userData.waypointPlatform as MovingPlatform;
+        const keyframe = platform.keyframes[marker.userData.waypointIndex];
+        keyframe.position.copy(marker.position);
+        keyframe.rotation.copy(marker.rotation);
+        // Waypoints share the size of the platform
+        marker.scale.copy(platform.shape.scaling);
+        this.updateWaypointMarkers(platform);
+    }
+    
     /**
      * Add a new rope
      */
@@ -652,6 +831,16 @@ export class LevelEditor {
             return;
         }
         
+        // Remove the keyframe of a waypoint, the first keyframe is the platform itself
+        if (this.selectedObject.userData && this.selectedObject.userData.waypointPlatform) {
+            const platform = this.selectedObject.userData.waypointPlatform as MovingPlatform;
+            platform.keyframes.splice(this.selectedObject.userData.waypointIndex, 1);
+            this.deselectObject();
+            this.refreshWaypointMarkers();
+            console.log("Removed waypoint");
+            return;
+        }
+        
         // Find the entity associated with the selected object
         const entity = this.level.entities.find(e => e.getCollisionMesh() === this.selectedObject);
         
@@ -664,6 +853,9 @@ export class LevelEditor {
             
             if (removed) {
                 console.log(`Successfully removed ${entity.constructor.name}`);
+                if (entity instanceof MovingPlatform) {
+                    this.refreshWaypointMarkers();
+                }
             } else {
                 console.error(`Failed to remove ${entity.constructor.name}`);
             }
@@ -708,6 +900,9 @@ export class LevelEditor {
             if (success) {
                 console.log("Level loaded successfully");
                 
+                // Show the paths of the moving platforms
+                this.refreshWaypointMarkers();
+                
                 // Update bounding boxes if they're visible
                 if (this.showBoundingBoxes) {
                     this.showAllBoundingBoxes();
@@ -744,11 +939,17 @@ export class LevelEditor {
         // Note: we don't need to create a new Level anymore since loadLevelFromString
         // now properly clears the existing level
         this.level.staticBodies = [];
+        this.level.movingPlatforms = [];
         this.level.entities = [];
+        this.level.broadphase.clear();
         this.level.ropes = [];
         this.level.actionAreas = [];
         this.level.saws = [];
         this.level.updrafts = [];
+        this.level.checkpoints = [];
+        this.level.activeCheckpoint = null;
+        this.level.collectibles = [];
+        this.level.requireAllCollectibles = false;
         this.levelRenderer.reset(this.level);
         
         // Very important: deselect any currently selected object
@@ -766,7 +967,10 @@ export class LevelEditor {
         
         // When object is transformed, update the underlying shape
         this.transformControls.addEventListener('objectChange', () => {
-            if (this.selectedObject) {
+            if (this.selectedObject && this.selectedObject.userData.waypointPlatform) {
+                this.moveWaypoint(this.selectedObject);
+                this.updateTransformPanel();
+            } else if (this.selectedObject) {
                 // Try to find in regular entities
                 let entity = this.level.entities.find(e => e.getCollisionMesh() === this.selectedObject);
                 if (entity) {
@@ -777,11 +981,15 @@ export class LevelEditor {
                         shape.scaling.copy(this.selectedObject.scale);
                         shape.updateTransform();
                         entity.shapeChanged();
+                        this.level.updateBroadphase(entity);
                         if(entity instanceof Rope)
                         {
                             for(let i = 0; i < 3; i++)
                                 entity.update();
                         }
+                        if (entity instanceof MovingPlatform) {
+                            this.updateWaypointMarkers(entity);
+                        }
                     }
                 } else {
                     // Check if it's a platform from staticBodies
@@ -791,6 +999,7 @@ export class LevelEditor {
                         platform.shape.orientation.copy(this.selectedObject.quaternion);
                         platform.shape.scaling.copy(this.selectedObject.scale);
                         platform.shape.updateTransform();
+                        this.level.updateBroadphase(platform);
                     }
                 }
                 
@@ -864,6 +1073,61 @@ export class LevelEditor {
             this.scaleZInput = inputs[2];
         }));
         
+        // Name that action areas use to refer to the object
+        const nameSection = document.createElement('div');
+        nameSection.style.marginBottom = '10px';
+        nameSection.textContent = 'Name';
+        this.nameInput = document.createElement('input');
+        this.nameInput.type = 'text';
+        this.styleTextInput(this.nameInput);
+        nameSection.appendChild(this.nameInput);
+        this.transformPanel.appendChild(nameSection);
+        
+        // Actions, only shown for action areas
+        this.actionsSection = document.createElement('div');
+        this.actionsSection.style.display = 'none';
+        
+        const triggerOnceLabel = document.createElement('label');
+        triggerOnceLabel.style.display = 'block';
+        triggerOnceLabel.style.marginBottom = '5px';
+        this.triggerOnceInput = document.createElement('input');
+        this.triggerOnceInput.type = 'checkbox';
+        triggerOnceLabel.appendChild(this.triggerOnceInput);
+        triggerOnceLabel.appendChild(document.createTextNode(' Trigger once'));
+        this.actionsSection.appendChild(triggerOnceLabel);
+        
+        const actionsTitle = document.createElement('div');
+        actionsTitle.textContent = 'Actions (JSON, empty finishes the level)';
+        actionsTitle.style.marginBottom = '5px';
+        this.actionsSection.appendChild(actionsTitle);
+        
+        this.actionsInput = document.createElement('textarea');
+        this.actionsInput.rows = 8;
+        this.actionsInput.placeholder = '[{ "type": "showText", "text": "Hello" }]';
+        this.styleTextInput(this.actionsInput);
+        this.actionsInput.style.fontFamily = 'monospace';
+        this.actionsInput.style.fontSize = '11px';
+        this.actionsSection.appendChild(this.actionsInput);
+        this.transformPanel.appendChild(this.actionsSection);
+        
+        // Path, only shown for saws
+        this.pathSection = document.createElement('div');
+        this.pathSection.style.display = 'none';
+        
+        const pathTitle = document.createElement('div');
+        pathTitle.textContent = 'Path (JSON, empty stays in place)';
+        pathTitle.style.marginBottom = '5px';
+        this.pathSection.appendChild(pathTitle);
+        
+        this.pathInput = document.createElement('textarea');
+        this.pathInput.rows = 6;
+        this.pathInput.placeholder = '{ "type": "circular", "points": [[0, 5, 0]], "speed": 4, "phase": 0 }';
+        this.styleTextInput(this.pathInput);
+        this.pathInput.style.fontFamily = 'monospace';
+        this.pathInput.style.fontSize = '11px';
+        this.pathSection.appendChild(this.pathInput);
+        this.transformPanel.appendChild(this.pathSection);
+        
         // Create apply button
         const applyButton = document.createElement('button');
         applyButton.textContent = 'Apply';
@@ -934,6 +1198,67 @@ export class LevelEditor {
         return section;
     }
 
+    // Same look as the number inputs of the transform sections
+    private styleTextInput(input: HTMLInputElement | HTMLTextAreaElement): void {
+        input.style.width = '100%';
+        input.style.boxSizing = 'border-box';
+        input.style.backgroundColor = '#333';
+        input.style.color = 'white';
+        input.style.border = '1px solid #555';
+        input.style.borderRadius = '3px';
+        input.style.padding = '3px';
+    }
+
+    // Apply the name and actions from the panel to the selected entity
+    private applyEntitySettings(): void {
+        if (!this.selectedObject) return;
+        
+        const name = this.nameInput ? this.nameInput.value.trim() : '';
+        const platform = this.level.staticBodies.find(p => p.mesh === this.selectedObject);
+        if (platform) {
+            platform.mesh.name = name;
+            return;
+        }
+        
+        const entity = this.level.entities.find(e => e.getCollisionMesh() === this.selectedObject);
+        if (!entity) return;
+        entity.name = name;
+        
+        if (entity instanceof ActionArea && this.actionsInput) {
+            try {
+                const text = this.actionsInput.value.trim();
+                const actions = text ? JSON.parse(text) : [];
+                if (!Array.isArray(actions)) {
+                    throw new Error("Actions must be a list");
+                }
+                entity.actions = actions;
+            } catch (e) {
+                alert(`Invalid actions: ${e}`);
+                return;
+            }
+            entity.triggerOnce = this.triggerOnceInput?.checked ?? false;
+            
+            // Resolve right away so test mode runs the new actions, targets have to exist already
+            if (entity.actions.length > 0) {
+                entity.callback = this.level.createActionCallback(entity.actions);
+            }
+        }
+        
+        if (entity instanceof Saw && this.pathInput) {
+            try {
+                const text = this.pathInput.value.trim();
+                if (!entity.setPath(text ? JSON.parse(text) : null)) {
+                    throw new Error("Path needs a type, points and speed");
+                }
+            } catch (e) {
+                alert(`Invalid path: ${e}`);
+                return;
+            }
+            // The saw jumped to the start of its path
+            this.updateTransformPanel();
+        }
+    }
+
     // Apply the transform values from the text fields
     private applyTransform(): void {
         if (!this.selectedObject) return;
@@ -964,10 +1289,26 @@ export class LevelEditor {
                 platform.shape.orientation.setFromEuler(new THREE.Euler(rotX, rotY, rotZ));
                 platform.shape.scaling.copy(this.selectedObject.scale);
                 platform.shape.updateTransform();
+                this.level.updateBroadphase(platform);
+            }
+            
+            // Moving platforms and their waypoints update the keyframes of the path
+            const movingPlatform = this.level.movingPlatforms.find(p => p.mesh === this.selectedObject);
+            if (movingPlatform) {
+                movingPlatform.shape.position.copy(this.selectedObject.position);
+                movingPlatform.shape.orientation.copy(this.selectedObject.quaternion);
+                movingPlatform.shape.scaling.copy(this.selectedObject.scale);
+                movingPlatform.shape.updateTransform();
+                movingPlatform.shapeChanged();
+                this.updateWaypointMarkers(movingPlatform);
+            } else if (this.selectedObject.userData.waypointPlatform) {
+                this.moveWaypoint(this.selectedObject);
             }
         } catch (e) {
             console.error("Error applying transform:", e);
         }
+        
+        this.applyEntitySettings();
     }
 
     // Update values in the panel when an object is selected
@@ -993,6 +1334,31 @@ export class LevelEditor {
         if (this.scaleZInput) this.scaleZInput.value = this.selectedObject.scale.z.toFixed(2);
     }
 
+    // Show the name and actions of the selected entity, only on selection so dragging keeps unsaved edits
+    private updateEntitySettings(): void {
+        if (!this.selectedObject) return;
+        
+        const entity = this.level.entities.find(e => e.getCollisionMesh() === this.selectedObject);
+        if (this.nameInput) this.nameInput.value = entity ? entity.name : this.selectedObject.name;
+        if (this.actionsSection && this.actionsInput && this.triggerOnceInput) {
+            if (entity instanceof ActionArea) {
+                this.actionsSection.style.display = 'block';
+                this.triggerOnceInput.checked = entity.triggerOnce;
+                this.actionsInput.value = entity.actions.length > 0 ? JSON.stringify(entity.actions, null, 2) : '';
+            } else {
+                this.actionsSection.style.display = 'none';
+            }
+        }
+        if (this.pathSection && this.pathInput) {
+            if (entity instanceof Saw) {
+                this.pathSection.style.display = 'block';
+                this.pathInput.value = entity.path ? JSON.stringify(entity.path, null, 2) : '';
+            } else {
+                this.pathSection.style.display = 'none';
+            }
+        }
+    }
+
     // Add this method to toggle bounding boxes
     private toggleBoundingBoxes(): void {
         this.showBoundingBoxes = !this.showBoundingBoxes;
@@ -1113,6 +1479,10 @@ export class LevelEditor {
         // Disable physics
         this.game.doLevelUpdate = false;
         
+        // Put the moving platforms and saws back at the start of their paths
+        this.level.movingPlatforms.forEach(platform => platform.reset());
+        this.level.saws.forEach(saw => saw.resetPath());
+        
         // Switch camera back to flying mode
         this.levelRenderer.camera.setMode(CameraMode.FIRST_PERSON_FLYING);
         
@@ -1201,6 +1571,61 @@ export class LevelEditor {
         // Select the new updraft
         this.selectObject(updraft.getCollisionMesh());
     }
-}
 
+    /**
+     * Add a new checkpoint at the camera's position
+     */
+    private addCheckpoint(): void {
+        // Get position for the new checkpoint
+        const checkpointPos = this.getPlacePosition(10, -1);
+        
+        // Default size, tall enough to be touched while jumping over it
+        const size = new THREE.Vector3(6, 8, 6);
+        
+        const checkpoint = this.level.addCheckpoint(checkpointPos, size);
+        
+        // Add the checkpoint to the levelRenderer such that it can be selected in the editor
+        this.levelRenderer.scene.add(checkpoint.getCollisionMesh());
+        
+        console.log(`Added new checkpoint at position ${checkpointPos.x.toFixed(2)}, ${checkpointPos.y.toFixed(2)}, ${checkpointPos.z.toFixed(2)}`);
+
+        // Update bounding boxes if they're visible to immediately show the new checkpoint
+        if (this.showBoundingBoxes) {
+            this.showAllBoundingBoxes();
+        }
+        
+        // Select the new checkpoint
+        this.selectObject(checkpoint.getCollisionMesh());
+    }
+
+    /**
+     * Add a new collectible at the camera's position
+     */
+    private addCollectible(): void {
+        // Get position for the new collectible
+        const collectiblePos = this.getPlacePosition(10, -1);
+        
+        const collectible = this.level.addCollectible(collectiblePos);
+        
+        // Add the collectible to the levelRenderer such that it can be selected in the editor
+        this.levelRenderer.scene.add(collectible.getCollisionMesh());
+        
+        console.log(`Added new collectible at position ${collectiblePos.x.toFixed(2)}, ${collectiblePos.y.toFixed(2)}, ${collectiblePos.z.toFixed(2)}`);
 
+        // Update bounding boxes if they're visible to immediately show the new collectible
+        if (this.showBoundingBoxes) {
+            this.showAllBoundingBoxes();
+        }
+        
+        // Select the new collectible
+        this.selectObject(collectible.getCollisionMesh());
+    }
+
+    /**
+     * Toggle whether the finish stays locked until all collectibles are picked up
+     */
+    private toggleRequireAllCollectibles(): void {
+        this.level.requireAllCollectibles = !this.level.requireAllCollectibles;
+        console.log(`Collect all to finish: ${this.level.requireAllCollectibles ? 'ON' : 'OFF'}`);
+    }
+}
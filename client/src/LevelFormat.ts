@@ -0,0 +1,254 @@
+import { TriggerActionType } from './ActionArea';
+import { Easing, PathMode } from './MovingPlatform';
+import { SawPathType } from './Saw';
+import { PlatformShape } from './StaticBody';
+
+// Bumped when the level data changes, older levels are migrated on load
+export const LEVEL_FORMAT_VERSION = 3;
+
+/**
+ * Upgrades and checks level data before Serialize builds a level from it
+ */
+export class LevelFormat {
+    /**
+     * Bring level data from an older version up to date
+     * @param data Parsed level data, changed in place
+     * @returns The migrated data
+     */
+    public static migrate(data: any): any {
+        // Validation reports data that isn't a level at all
+        if (!data || typeof data !== 'object') return data;
+        const version = typeof data.version === 'number' ? data.version : 1;
+
+        // Version 1 levels were saved before checkpoints, collectibles, moving platforms and actions existed,
+        // and the loader skipped any list that was missing
+        if (version < 2) {
+            data.platforms ??= [];
+            data.ropes ??= [];
+            data.saws ??= [];
+            data.actionAreas ??= [];
+            data.updrafts ??= [];
+            data.movingPlatforms ??= [];
+            data.checkpoints ??= [];
+            data.collectibles ??= [];
+            data.requireAllCollectibles ??= false;
+            data.parTimes ??= [];
+            if (Array.isArray(data.actionAreas)) {
+                data.actionAreas.forEach((area: any) => {
+                    if (area && typeof area === 'object') {
+                        area.actions ??= [];
+                    }
+                });
+            }
+            console.log(`Migrated level "${data.name}" from version ${version} to 2`);
+        }
+
+        // Version 2 platforms were all boxes
+        if (version < 3) {
+            if (Array.isArray(data.platforms)) {
+                data.platforms.forEach((platform: any) => {
+                    if (platform && typeof platform === 'object') {
+                        platform.shape ??= PlatformShape.Box;
+                    }
+                });
+            }
+            console.log(`Migrated level "${data.name}" from version ${Math.max(version, 2)} to 3`);
+        }
+
+        if (version < LEVEL_FORMAT_VERSION) {
+            data.version = LEVEL_FORMAT_VERSION;
+        }
+        return data;
+    }
+
+    /**
+     * Check migrated level data against the current format
+     * @param data Level data after migrate
+     * @returns One message per problem, naming the field and entity index, empty if the data is valid
+     */
+    public static validate(data: any): string[] {
+        const errors: string[] = [];
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            return ["Level data must be an object"];
+        }
+
+        if (typeof data.version !== 'number' || data.version > LEVEL_FORMAT_VERSION) {
+            errors.push(`version ${data.version} is not supported, this game reads up to version ${LEVEL_FORMAT_VERSION}`);
+            return errors;
+        }
+
+        this.checkList(data, 'platforms', errors, (platform, path) => {
+            this.checkEnum(platform, 'shape', Object.values(PlatformShape), path, errors);
+            this.checkVector(platform, 'position', path, errors);
+            this.checkVector(platform, 'rotation', path, errors);
+            this.checkVector(platform, 'scale', path, errors);
+            this.checkString(platform, 'color', path, errors, true);
+            this.checkString(platform, 'name', path, errors, true);
+        });
+
+        this.checkList(data, 'movingPlatforms', errors, (platform, path) => {
+            this.checkVector(platform, 'size', path, errors);
+            this.checkString(platform, 'color', path, errors, true);
+            this.checkString(platform, 'name', path, errors, true);
+            this.checkEnum(platform, 'mode', Object.values(PathMode), path, errors);
+            this.checkList(platform, 'keyframes', errors, (keyframe, keyframePath) => {
+                this.checkVector(keyframe, 'position', keyframePath, errors);
+                if (keyframe.rotation !== undefined) {
+                    this.checkVector(keyframe, 'rotation', keyframePath, errors);
+                }
+                this.checkNumber(keyframe, 'duration', keyframePath, errors, 0);
+                if (keyframe.easing !== undefined) {
+                    this.checkEnum(keyframe, 'easing', Object.values(Easing), keyframePath, errors);
+                }
+            }, path);
+            if (Array.isArray(platform.keyframes) && platform.keyframes.length === 0) {
+                errors.push(`${path}.keyframes must have at least one keyframe`);
+            }
+        });
+
+        this.checkList(data, 'ropes', errors, (rope, path) => {
+            this.checkVector(rope, 'startPos', path, errors);
+            this.checkVector(rope, 'endPos', path, errors);
+            this.checkNumber(rope, 'segments', path, errors, 1);
+            this.checkNumber(rope, 'length', path, errors, 0);
+            this.checkString(rope, 'name', path, errors, true);
+        });
+
+        this.checkList(data, 'saws', errors, (saw, path) => {
+            this.checkVector(saw, 'position', path, errors);
+            this.checkVector(saw, 'rotation', path, errors);
+            this.checkNumber(saw, 'radius', path, errors, 0);
+            this.checkNumber(saw, 'thickness', path, errors, 0);
+            this.checkNumber(saw, 'spinSpeed', path, errors);
+            this.checkString(saw, 'name', path, errors, true);
+            if (saw.path !== undefined && saw.path !== null) {
+                this.checkSawPath(saw.path, `${path}.path`, errors);
+            }
+        });
+
+        this.checkList(data, 'actionAreas', errors, (area, path) => {
+            this.checkVector(area, 'position', path, errors);
+            this.checkVector(area, 'size', path, errors);
+            if (typeof area.triggerOnce !== 'boolean') {
+                errors.push(`${path}.triggerOnce must be true or false`);
+            }
+            this.checkString(area, 'name', path, errors, true);
+            this.checkList(area, 'actions', errors, (action, actionPath) => {
+                this.checkEnum(action, 'type', Object.values(TriggerActionType), actionPath, errors);
+            }, path);
+        });
+
+        this.checkList(data, 'updrafts', errors, (updraft, path) => {
+            this.checkVector(updraft, 'position', path, errors);
+            this.checkVector(updraft, 'size', path, errors);
+            this.checkNumber(updraft, 'strength', path, errors);
+            this.checkString(updraft, 'name', path, errors, true);
+        });
+
+        this.checkList(data, 'checkpoints', errors, (checkpoint, path) => {
+            this.checkVector(checkpoint, 'position', path, errors);
+            this.checkVector(checkpoint, 'size', path, errors);
+            this.checkString(checkpoint, 'name', path, errors, true);
+        });
+
+        this.checkList(data, 'collectibles', errors, (collectible, path) => {
+            this.checkVector(collectible, 'position', path, errors);
+            this.checkNumber(collectible, 'radius', path, errors, 0);
+            this.checkString(collectible, 'name', path, errors, true);
+        });
+
+        if (typeof data.requireAllCollectibles !== 'boolean') {
+            errors.push("requireAllCollectibles must be true or false");
+        }
+        if (data.playerStartPosition !== undefined) {
+            this.checkVector(data, 'playerStartPosition', '', errors);
+        }
+        if (!Array.isArray(data.parTimes)) {
+            errors.push("parTimes must be a list");
+        } else {
+            data.parTimes.forEach((_: any, index: number) => this.checkNumber(data.parTimes, index.toString(), 'parTimes', errors, 0));
+        }
+
+        return errors;
+    }
+
+    // Check that a field is a list and check every entry of it
+    private static checkList(
+        owner: any,
+        field: string,
+        errors: string[],
+        checkEntry: (entry: any, path: string) => void,
+        ownerPath: string = ''
+    ): void {
+        const path = ownerPath ? `${ownerPath}.${field}` : field;
+        const list = owner[field];
+        if (!Array.isArray(list)) {
+            errors.push(`${path} must be a list`);
+            return;
+        }
+        list.forEach((entry, index) => {
+            const entryPath = `${path}[${index}]`;
+            if (entry === null || typeof entry !== 'object') {
+                errors.push(`${entryPath} must be an object`);
+                return;
+            }
+            checkEntry(entry, entryPath);
+        });
+    }
+
+    private static checkVector(owner: any, field: string, path: string, errors: string[]): void {
+        const value = owner[field];
+        if (!Array.isArray(value) || value.length !== 3 || !value.every(n => typeof n === 'number' && isFinite(n))) {
+            errors.push(`${this.fieldPath(path, field)} must be a list of 3 numbers, got ${JSON.stringify(value)}`);
+        }
+    }
+
+    private static checkNumber(owner: any, field: string, path: string, errors: string[], min?: number): void {
+        const value = owner[field];
+        if (typeof value !== 'number' || !isFinite(value)) {
+            errors.push(`${this.fieldPath(path, field)} must be a number, got ${JSON.stringify(value)}`);
+        } else if (min !== undefined && value < min) {
+            errors.push(`${this.fieldPath(path, field)} must be at least ${min}, got ${value}`);
+        }
+    }
+
+    private static checkString(owner: any, field: string, path: string, errors: string[], optional: boolean = false): void {
+        const value = owner[field];
+        if (optional && value === undefined) return;
+        if (typeof value !== 'string') {
+            errors.push(`${this.fieldPath(path, field)} must be a string, got ${JSON.stringify(value)}`);
+        }
+    }
+
+    private static checkEnum(owner: any, field: string, values: string[], path: string, errors: string[]): void {
+        if (!values.includes(owner[field])) {
+            errors.push(`${this.fieldPath(path, field)} must be one of ${values.join(', ')}, got ${JSON.stringify(owner[field])}`);
+        }
+    }
+
+    private static checkSawPath(sawPath: any, path: string, errors: string[]): void {
+        if (typeof sawPath !== 'object' || Array.isArray(sawPath)) {
+            errors.push(`${path} must be an object`);
+            return;
+        }
+        this.checkEnum(sawPath, 'type', Object.values(SawPathType), path, errors);
+        this.checkNumber(sawPath, 'speed', path, errors);
+        if (sawPath.phase !== undefined) {
+            this.checkNumber(sawPath, 'phase', path, errors);
+        }
+        if (!Array.isArray(sawPath.points)) {
+            errors.push(`${path}.points must be a list`);
+            return;
+        }
+        sawPath.points.forEach((_: any, index: number) => this.checkVector(sawPath.points, index.toString(), `${path}.points`, errors));
+        if (sawPath.type === SawPathType.Waypoints ? sawPath.points.length === 0 : sawPath.points.length !== 1) {
+            errors.push(`${path}.points must have ${sawPath.type === SawPathType.Waypoints ? 'at least one point' : 'exactly one point'}`);
+        }
+    }
+
+    // Name of a field for messages, list indices are shown in brackets
+    private static fieldPath(path: string, field: string): string {
+        if (/^\d+$/.test(field)) return `${path}[${field}]`;
+        return path ? `${path}.${field}` : field;
+    }
+}
@@ -7,6 +7,7 @@ import { ParticleSystem } from './ParticleSystem';
 import { SimpleText } from './SimpleText';
 import { Camera, CameraMode } from './Camera';
 import { MeshBuilder } from './MeshBuilder';
+import { Ghost } from './Ghost';
 
 export class LevelRenderer {
     public scene: THREE.Scene;
@@ -22,6 +23,9 @@ export class LevelRenderer {
     // Add particle system
     public particleSystem: ParticleSystem | null = null;
 
+    // Recorded run raced against in timed levels
+    public ghost: Ghost | null = null;
+
     private _frameCount: number = 0;
 
     constructor(level: Level, highPerformance: boolean) {
@@ -316,6 +320,9 @@ export class LevelRenderer {
             player.updateUsernameText(this.scene);
         });
 
+        // Render the ghost on top of the level, it is not part of it
+        this.ghost?.render(this);
+
         // Update shadow map camera to follow player
         if (this.level.localPlayer) {
             this.updateShadowCamera(this.level.localPlayer.getPosition());
@@ -379,8 +386,8 @@ export class LevelRenderer {
         position: THREE.Vector3,
         textColor: string = 'white',
         outlineColor: string = 'black'
-    ): void {
-        new SimpleText(text, position, this.scene, textColor, outlineColor);
+    ): SimpleText {
+        return new SimpleText(text, position, this.scene, textColor, outlineColor);
     }
 
     public handleResize(width: number, height: number): void {
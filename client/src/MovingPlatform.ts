@@ -0,0 +1,192 @@
+import * as THREE from 'three';
+import { Entity } from './Entity';
+import { ConvexShape } from '../../shared/ConvexShape';
+import { VerletBody } from '../../shared/Verlet';
+
+// Platforms move a fixed step per level tick, so replays and ghosts see them in the same place
+const TICKS_PER_SECOND = 60;
+
+export enum PathMode {
+    Loop = "loop",          // After the last keyframe go back to the first one
+    PingPong = "pingpong",  // After the last keyframe run the path backwards
+}
+
+export enum Easing {
+    Linear = "linear",
+    EaseInOut = "easeInOut",
+}
+
+export interface Keyframe {
+    position: THREE.Vector3;
+    rotation: THREE.Euler;
+    // Seconds to travel to the next keyframe
+    duration: number;
+    easing: Easing;
+}
+
+/**
+ * Box platform that follows a path of keyframes.
+ * It is kinematic: nothing pushes it, and players standing on it are carried along.
+ */
+export class MovingPlatform extends Entity {
+    public shape: ConvexShape;
+    public mesh: THREE.Mesh;
+    public keyframes: Keyframe[];
+    public mode: PathMode;
+
+    // Bodies that stood on top of the platform in the last tick, carried along by the next move.
+    // The whole body moves, otherwise the particles in the air would drag it off the platform.
+    public riders: Set<VerletBody> = new Set();
+
+    private tick: number = 0;
+    private previousMatrix: THREE.Matrix4 = new THREE.Matrix4();
+    private currentMatrix: THREE.Matrix4 = new THREE.Matrix4();
+    private deltaMatrix: THREE.Matrix4 = new THREE.Matrix4();
+
+    /**
+     * Create a moving platform
+     * @param size Size of the platform box
+     * @param keyframes Path of the platform, the first keyframe is where it starts
+     * @param mode What happens after the last keyframe
+     * @param material Material for the mesh
+     */
+    constructor(size: THREE.Vector3, keyframes: Keyframe[], mode: PathMode, material: THREE.Material) {
+        super();
+        this.keyframes = keyframes;
+        this.mode = mode;
+
+        // Create unit box and use scale to set size, just like ActionArea
+        this.shape = ConvexShape.createBox(
+            new THREE.Vector3(-0.5, -0.5, -0.5),
+            new THREE.Vector3(0.5, 0.5, 0.5)
+        );
+        this.shape.setScale(size);
+
+        this.mesh = this.shape.createMeshLocal(material);
+        this.mesh.castShadow = true;
+        this.mesh.receiveShadow = true;
+
+        this.reset();
+    }
+
+    /**
+     * Put the platform back at the first keyframe
+     */
+    public reset(): void {
+        this.tick = 0;
+        this.riders.clear();
+        this.applyPose(0);
+    }
+
+    /**
+     * Move one tick along the path and carry the riders by the same motion
+     */
+    public fixedUpdate(): void {
+        this.tick++;
+        this.getMatrix(this.previousMatrix);
+        this.applyPose(this.tick / TICKS_PER_SECOND);
+        this.getMatrix(this.currentMatrix);
+
+        // Motion of this tick, moving both positions keeps the velocity of the riders relative to the platform
+        this.deltaMatrix.copy(this.previousMatrix).invert().premultiply(this.currentMatrix);
+        this.riders.forEach(body => {
+            body.getParticles().forEach(particle => {
+                particle.position.applyMatrix4(this.deltaMatrix);
+                particle.previousPosition.applyMatrix4(this.deltaMatrix);
+            });
+        });
+        this.riders.clear();
+    }
+
+    public getCollisionMesh(): THREE.Mesh {
+        return this.mesh;
+    }
+
+    public getBoundingBox(): THREE.Box3 {
+        return this.shape.getBoundingBox();
+    }
+
+    public getShape(): ConvexShape | null {
+        return this.shape;
+    }
+
+    // The editor moves the platform at its first keyframe, so edits change the start of the path and the size
+    public shapeChanged(): void {
+        if (this.keyframes.length > 0) {
+            this.keyframes[0].position.copy(this.shape.position);
+            this.keyframes[0].rotation.setFromQuaternion(this.shape.orientation);
+        }
+        this.syncMeshToShape();
+    }
+
+    // Time of one full cycle through the path in seconds
+    private getCycleDuration(): number {
+        const segments = this.getSegmentCount();
+        let duration = 0;
+        for (let i = 0; i < segments; i++) {
+            duration += this.keyframes[i].duration;
+        }
+        return this.mode === PathMode.PingPong ? duration * 2 : duration;
+    }
+
+    // Ping-pong paths don't travel from the last keyframe back to the first
+    private getSegmentCount(): number {
+        return this.mode === PathMode.Loop ? this.keyframes.length : this.keyframes.length - 1;
+    }
+
+    private applyPose(time: number): void {
+        if (this.keyframes.length === 0) return;
+
+        const cycle = this.getCycleDuration();
+        if (this.keyframes.length < 2 || cycle <= 0) {
+            this.setPose(this.keyframes[0], this.keyframes[0], 0);
+            return;
+        }
+
+        let t = time % cycle;
+        if (this.mode === PathMode.PingPong && t > cycle / 2) {
+            // Run the path backwards in the second half of the cycle
+            t = cycle - t;
+        }
+
+        // Find the segment the time falls into
+        const segments = this.getSegmentCount();
+        for (let i = 0; i < segments; i++) {
+            const from = this.keyframes[i];
+            if (t <= from.duration || i === segments - 1) {
+                const to = this.keyframes[(i + 1) % this.keyframes.length];
+                const alpha = from.duration > 0 ? Math.min(t / from.duration, 1) : 1;
+                this.setPose(from, to, this.ease(alpha, from.easing));
+                return;
+            }
+            t -= from.duration;
+        }
+    }
+
+    private setPose(from: Keyframe, to: Keyframe, alpha: number): void {
+        this.shape.position.lerpVectors(from.position, to.position, alpha);
+        const fromRotation = new THREE.Quaternion().setFromEuler(from.rotation);
+        const toRotation = new THREE.Quaternion().setFromEuler(to.rotation);
+        this.shape.orientation.slerpQuaternions(fromRotation, toRotation, alpha);
+        this.shape.updateTransform();
+        this.syncMeshToShape();
+    }
+
+    private ease(alpha: number, easing: Easing): number {
+        if (easing === Easing.EaseInOut) {
+            return alpha * alpha * (3 - 2 * alpha);
+        }
+        return alpha;
+    }
+
+    // Transform of the platform without its size, the riders must not be scaled
+    private getMatrix(target: THREE.Matrix4): void {
+        target.compose(this.shape.position, this.shape.orientation, new THREE.Vector3(1, 1, 1));
+    }
+
+    private syncMeshToShape(): void {
+        this.mesh.position.copy(this.shape.position);
+        this.mesh.quaternion.copy(this.shape.orientation);
+        this.mesh.scale.copy(this.shape.scaling);
+    }
+}
@@ -1,7 +1,13 @@
 import { Client, Room } from 'colyseus.js';
 import { Game } from './Game';
+import { GhostMode } from './Ghost';
+import { MovementState } from './Player';
+import { Pose } from '../../shared/Pose';
+import { SnapshotBuffer } from './SnapshotBuffer';
+import { Account } from './Account';
 import * as THREE from 'three';
-import { PlayerPosition, Player, GameState } from '../../shared/types';
+import { PlayerPosition, Player, GameState, HighscorePeriod, LevelAttempt } from '../../shared/types';
+import { TimedLevels } from './TimedLevels';
 
 // Add room type support
 export enum RoomType {
@@ -16,8 +22,20 @@ export class Network {
     private updateInterval: number | null = null;
     public playerId: string | null = null;
     private currentRoomType: RoomType | null = null;
-    private highscores: {[levelId: string]: Array<{username: string, timeMs: number, stars: number, timestamp: number}>} = {};
+    // Gameplay rooms are partitioned per level, so players only see others in the same level
+    private currentLevelIdx: number | null = null;
+    // Whether a room was joined before, later joins are room switches within the same session
+    private hasJoined: boolean = false;
+    // Daily, weekly and all-time boards of every level
+    private highscores: {[period: string]: {[levelId: string]: Array<{username: string, timeMs: number, stars: number, timestamp: number}>}} = {};
     private pendingHighscoreRequests: Map<number, number> = new Map();
+    // Verified attempts of the local player by level, for the progress graph
+    private levelHistory: {[levelId: string]: LevelAttempt[]} = {};
+    // Most stars the local player earned by level
+    private bestStars: {[levelId: string]: number} = {};
+    // Jitter buffer settings for remote players, tunable with ?interpDelay= and ?maxExtrapolation=
+    public interpolationDelayMs: number = 100;
+    public maxExtrapolationMs: number = 250;
 
     constructor(game: Game) {
         this.game = game;
@@ -31,18 +49,26 @@ export class Network {
         console.log(`${wsProtocol}${wsHost}${wsPort} production: ${isProduction}`);
         
         this.client = new Client(`${wsProtocol}${wsHost}${wsPort}/colyseus`);
+        
+        const urlParams = new URLSearchParams(window.location.search);
+        if (urlParams.has('interpDelay')) {
+            this.interpolationDelayMs = Number(urlParams.get('interpDelay')) || 0;
+        }
+        if (urlParams.has('maxExtrapolation')) {
+            this.maxExtrapolationMs = Number(urlParams.get('maxExtrapolation')) || 0;
+        }
     }
 
-    // Connect to specific room type
-    public async connectToRoom(roomType: RoomType): Promise<string> {
-        // If already connected to this room type, just return the ID
-        if (this.room && this.currentRoomType === roomType) {
+    // Connect to specific room type, gameplay rooms also need the level index
+    public async connectToRoom(roomType: RoomType, levelIdx: number = 0): Promise<string> {
+        // If already connected to this room, just return the ID
+        if (this.room && this.currentRoomType === roomType && this.currentLevelIdx === levelIdx) {
             return this.playerId!;
         }
         
         // Leave current room if connected to a different one
-        if (this.room && this.currentRoomType !== roomType) {
-            console.log(`Leaving ${this.currentRoomType} to join ${roomType}`);
+        if (this.room) {
+            console.log(`Leaving ${this.currentRoomType} (level ${this.currentLevelIdx}) to join ${roomType} (level ${levelIdx})`);
             this.leaveCurrentRoom();
         }
 
@@ -51,7 +77,10 @@ export class Network {
             
             // Use a timeout to ensure the promise resolves or rejects in a reasonable time
             const connectionPromise = this.client.joinOrCreate(roomType, {
-                username: this.game.userName // Send username as part of the join options
+                username: this.game.userName, // Name for a new account, existing accounts keep theirs
+                token: Account.loadToken(), // Logs in to the account of earlier visits
+                newSession: !this.hasJoined, // Only the first join of a session counts in the account stats
+                levelIdx // Server matches gameplay rooms by level
             });
             
             // Set timeout for connection (5 seconds)
@@ -62,12 +91,41 @@ export class Network {
             // Race between connection and timeout
             this.room = await Promise.race([connectionPromise, timeoutPromise]);
             this.playerId = this.room.sessionId;
+            this.hasJoined = true;
             this.currentRoomType = roomType;
-            console.log(`Connected to ${roomType} with ID: ${this.playerId}`);
+            this.currentLevelIdx = levelIdx;
+            console.log(`Connected to ${roomType} (level ${levelIdx}) with ID: ${this.playerId}`);
             
             // Set up the simple notification handler
             this.setupSimpleNotificationHandler();
             
+            // Our account, the server decides which name we really have
+            this.room.onMessage("account", (message) => {
+                if (message.token) {
+                    Account.saveToken(message.token);
+                }
+                Account.profile = message.account;
+                this.game.applyAccountProfile(message.account);
+            });
+            this.room.send("get_account");
+            
+            // Leaderboard runs to race against
+            this.room.onMessage("ghost_run", (message) => {
+                if (message.replay) {
+                    this.game.setGhostReplay(message.replay);
+                } else {
+                    console.log(`No leaderboard run available for level ${message.levelId}`);
+                }
+            });
+            
+            // Personal history of a level, sent on request and after every verified completion
+            this.room.onMessage("level_history", (message) => {
+                this.levelHistory[message.levelId] = message.attempts;
+                for (const attempt of message.attempts as LevelAttempt[]) {
+                    this.bestStars[message.levelId] = Math.max(this.bestStars[message.levelId] ?? 0, attempt.stars);
+                }
+            });
+            
             // Setup room-specific handlers
             if (roomType === RoomType.OVERWORLD) {
                 this.setupOverworldHandlers();
@@ -75,7 +133,7 @@ export class Network {
                 this.setupGameplayHandlers();
             }
             
-            // Start sending position updates (only matters in overworld)
+            // Start sending position updates so others in the room see us
             this.startSendingPosition();
             
             return this.playerId;
@@ -95,6 +153,7 @@ export class Network {
             this.room.leave();
             this.room = null;
             this.currentRoomType = null;
+            this.currentLevelIdx = null;
             console.log("Left current room");
         }
     }
@@ -106,56 +165,15 @@ export class Network {
         // Request all highscores when joining the overworld
         this.requestAllHighscores();
         
-        this.room.onStateChange((state) => {
-            if (!this.game.level) return;
-            let level = this.game.level;
-            
-            // Handle other players in overworld (full position/state sync)
-            state.players.forEach((player: Player, id: string) => {
-                // Skip our ID, we manage our own player
-                if (id === this.playerId) return;
-                
-                // Get the player's username from the state
-                const username = player.username || "Unknown Player";
-                
-                // Handle other players
-                if (!level.hasPlayer(id)) {
-                    console.log(`Adding remote player: ${id} with username: ${username}`);
-                    const newPlayer = level.addNetworkPlayer(id, username);
-                    newPlayer.setPosition(new THREE.Vector3(player.position.x, 13, player.position.z));
-                    newPlayer.username = username;
-                }
-                
-                // Update remote player position and username
-                const remotePlayer = level.getPlayer(id);
-                if (remotePlayer) {
-                    // Update username if it changed
-                    if (player.username && remotePlayer.username !== player.username) {
-                        remotePlayer.username = player.username;
-                    }
-                    
-                    remotePlayer.fixedHeadPosition = new THREE.Vector3(
-                        player.position.x,
-                        player.position.y,
-                        player.position.z
-                    );
-                    remotePlayer.lastMovementDir.set(
-                        player.position.dirX,
-                        player.position.dirY,
-                        player.position.dirZ
-                    );
-                }
-            });
-            
-            // Remove disconnected players
-            const connectedIds = new Set(Array.from(state.players.keys()));
-            level.getNetworkPlayerIds().forEach(id => {
-                if (id !== this.playerId && !connectedIds.has(id)) {
-                    console.log(`Removing disconnected player: ${id}`);
-                    level.removePlayer(id);
-                }
-            });
+        // Show the best star counts at the portals
+        this.room.onMessage("best_stars", (message) => {
+            this.bestStars = message.stars;
+            this.updatePortalStars();
         });
+        this.room.send("get_best_stars");
+        
+        // Show the other players in the overworld
+        this.room.onStateChange((state) => this.syncRemotePlayers(state));
         
         // Register player count message handler
         this.room.onMessage("player_count", (message) => {
@@ -164,14 +182,13 @@ export class Network {
         
         // Register all_highscores message handler
         this.room.onMessage("all_highscores", (message) => {
-            console.log("Received all highscores:");
+            const period: HighscorePeriod = message.period ?? HighscorePeriod.AllTime;
+            console.log(`Received all ${period} highscores:`);
             
             const highscores = message.highscores;
             
-            // Store in our local cache
-            for (const levelId in highscores) {
-                this.highscores[levelId] = highscores[levelId];
-            }
+            // Store in our local cache, replacing the board since entries drop off when a period ends
+            this.highscores[period] = highscores;
             
             // Update any signs in the level with the new highscores
             this.updateSignsWithHighscores();
@@ -203,6 +220,9 @@ export class Network {
         
         // No need for setupNotificationSystem anymore
         
+        // Show the other players racing the same level
+        this.room.onStateChange((state) => this.syncRemotePlayers(state));
+        
         this.room.onMessage("level_completed_by", (message) => {
             console.log(`Player ${message.username} completed level ${message.levelId} in ${message.timeMs}ms with ${message.stars} stars`);
             // Could display this in-game
@@ -225,6 +245,16 @@ export class Network {
             console.log(`Received highscores for level ${message.levelId}:`, message.highscores);
         });
         
+        // A request made while still in the overworld room is lost when leaving it, so ask again
+        if (this.game.ghostMode === GhostMode.Leader && this.game.level) {
+            this.requestGhostRun(this.game.level.levelIdx);
+        }
+        
+        // Fetch the personal history so the completion message can compare against it
+        if (this.currentLevelIdx !== null && TimedLevels.isTimedLevel(this.currentLevelIdx)) {
+            this.room.send("get_level_history", { levelId: this.currentLevelIdx });
+        }
+        
         // Handle disconnection
         this.room.onLeave((code) => {
             console.log(`Left room with code: ${code}`);
@@ -236,13 +266,85 @@ export class Network {
         });
     }
     
-    // Send position updates (only matters in overworld)
+    /**
+     * Add, update and remove remote players in the current level from the room state
+     * @param state The synced room state
+     */
+    private syncRemotePlayers(state: GameState): void {
+        if (!this.game.level) return;
+        let level = this.game.level;
+        
+        // Handle other players in the room (full position/state sync)
+        state.players.forEach((player: Player, id: string) => {
+            // Skip our ID, we manage our own player
+            if (id === this.playerId) return;
+            
+            // Get the player's username from the state
+            const username = player.username || "Unknown Player";
+            
+            // Handle other players
+            if (!level.hasPlayer(id)) {
+                console.log(`Adding remote player: ${id} with username: ${username}`);
+                const newPlayer = level.addNetworkPlayer(id, username);
+                // Drop overworld players in from above, gameplay levels have no common ground height
+                const spawnY = level.levelIdx === 0 ? 13 : player.position.y;
+                newPlayer.setPosition(new THREE.Vector3(player.position.x, spawnY, player.position.z));
+                newPlayer.username = username;
+            }
+            
+            // Update remote player position and username
+            const remotePlayer = level.getPlayer(id);
+            if (remotePlayer) {
+                // Update username if it changed
+                if (player.username && remotePlayer.username !== player.username) {
+                    remotePlayer.username = player.username;
+                }
+                
+                remotePlayer.fixedHeadPosition = new THREE.Vector3(
+                    player.position.x,
+                    player.position.y,
+                    player.position.z
+                );
+                
+                // Buffer the full body when the player sends its pose
+                const pose = Array.from(player.position.pose ?? []);
+                if (Pose.isValid(pose)) {
+                    if (!remotePlayer.snapshotBuffer) {
+                        remotePlayer.snapshotBuffer = new SnapshotBuffer(this.interpolationDelayMs, this.maxExtrapolationMs);
+                    }
+                    remotePlayer.snapshotBuffer.push(
+                        player.position.time,
+                        performance.now(),
+                        Pose.decode(pose, remotePlayer.fixedHeadPosition),
+                        player.position.movementState as MovementState,
+                        level.ropes[player.position.ropeIndex] ?? null
+                    );
+                }
+                remotePlayer.lastMovementDir.set(
+                    player.position.dirX,
+                    player.position.dirY,
+                    player.position.dirZ
+                );
+            }
+        });
+        
+        // Remove disconnected players
+        const connectedIds = new Set(Array.from(state.players.keys()));
+        level.getNetworkPlayerIds().forEach(id => {
+            if (id !== this.playerId && !connectedIds.has(id)) {
+                console.log(`Removing disconnected player: ${id}`);
+                level.removePlayer(id);
+            }
+        });
+    }
+    
+    // Send position updates to the current room
     private startSendingPosition(): void {
         // Clear any existing interval
         if (this.updateInterval) clearInterval(this.updateInterval);
         
-        // Make sure we have a player ID and are in the overworld room
-        if (!this.playerId || this.currentRoomType !== RoomType.OVERWORLD) {
+        // Make sure we have a player ID
+        if (!this.playerId) {
             return;
         }
         
@@ -253,8 +355,10 @@ export class Network {
             const localPlayer = this.game.level.getPlayer(this.playerId!);
             if (localPlayer) {
                 // Get head position (first particle) instead of average
-                const headPos = localPlayer.getBody().getParticles()[0].position;
+                const particles = localPlayer.getBody().getParticles();
+                const headPos = particles[0].position;
                 const dir = localPlayer.lastMovementDir;
+                const ropeIndex = localPlayer.rope ? this.game.level.ropes.indexOf(localPlayer.rope) : -1;
                 this.room.send("position", {
                     x: headPos.x,
                     y: headPos.y,
@@ -262,7 +366,10 @@ export class Network {
                     dirX: dir.x,
                     dirY: dir.y,
                     dirZ: dir.z,
-                    username: this.game.userName // Include username with each position update
+                    pose: Pose.encode(particles.map(particle => particle.position)),
+                    movementState: localPlayer.movementState,
+                    ropeIndex,
+                    time: performance.now()
                 });
             }
         }, 50); // 20 updates per second
@@ -278,7 +385,7 @@ export class Network {
         const roomType = this.game.level?.levelIdx === 0 ? 
             RoomType.OVERWORLD : RoomType.GAMEPLAY;
             
-        return this.connectToRoom(roomType);
+        return this.connectToRoom(roomType, this.game.level?.levelIdx ?? 0);
     }
     
     // Clean up all network connections
@@ -308,20 +415,37 @@ export class Network {
         }
     }
 
+    /**
+     * Send a player color change to the server
+     * @param color The new color as #rrggbb
+     */
+    public sendColorChange(color: string): void {
+        if (!this.room || !this.playerId) return;
+        
+        try {
+            this.room.send("color_change", { color });
+            console.log(`Sent color update: ${color}`);
+        } catch (error) {
+            console.error("Failed to send color update:", error);
+        }
+    }
+
     /**
      * Send level completion data to the server
      * @param levelId The level ID that was completed
      * @param timeMs Time taken to complete the level in milliseconds
      * @param stars Number of stars earned (optional)
+     * @param inputs Recorded input frames of the run, replayed by the server to verify the time
      */
-    public sendLevelCompletion(levelId: number, timeMs: number, stars: number = 0): void {
+    public sendLevelCompletion(levelId: number, timeMs: number, stars: number = 0, inputs: number[][] = []): void {
         if (!this.room || !this.playerId) return;
         
         try {
             this.room.send("level_complete", {
                 levelId,
                 timeMs,
-                stars
+                stars,
+                inputs
             });
             console.log(`Sent level completion: Level ${levelId} in ${timeMs}ms with ${stars} stars`);
         } catch (error) {
@@ -396,11 +520,39 @@ export class Network {
         }, 5000);
     }
     
+    /**
+     * Get the verified attempts of the local player on a level
+     * @param levelId The level ID
+     * @returns Attempts oldest first, empty until the server sent them
+     */
+    public getLevelHistory(levelId: number): LevelAttempt[] {
+        return this.levelHistory[levelId.toString()] || [];
+    }
+    
+    /**
+     * Get the most stars the local player earned on a level
+     * @param levelId The level ID
+     */
+    public getBestStars(levelId: number): number {
+        return this.bestStars[levelId.toString()] ?? 0;
+    }
+    
+    /**
+     * Update the star counts shown at the overworld portals
+     */
+    public updatePortalStars(): void {
+        this.game.level?.starLabels.forEach((label, levelId) => {
+            label.updateText(TimedLevels.formatStars(this.getBestStars(levelId)));
+        });
+    }
+    
     /**
      * Get stored highscores for a level
+     * @param levelId The level ID
+     * @param period Which board to get
      */
-    public getHighscores(levelId: number): Array<{username: string, timeMs: number, stars: number, timestamp: number}> {
-        return this.highscores[levelId.toString()] || [];
+    public getHighscores(levelId: number, period: HighscorePeriod = HighscorePeriod.AllTime): Array<{username: string, timeMs: number, stars: number, timestamp: number}> {
+        return this.highscores[period]?.[levelId.toString()] || [];
     }
     
     // Replace setupGlobalNotificationHandler with a simpler version
@@ -522,19 +674,36 @@ export class Network {
     }
 
     /**
-     * Request all highscores for all levels
+     * Request the daily, weekly and all-time highscores for all levels
      */
     public requestAllHighscores(): void {
         if (!this.room || !this.playerId) return;
         
         try {
             console.log("Requesting all highscores");
-            this.room.send("get_all_highscores");
+            for (const period of Object.values(HighscorePeriod)) {
+                this.room.send("get_all_highscores", { period });
+            }
         } catch (error) {
             console.error("Failed to request all highscores:", error);
         }
     }
 
+    /**
+     * Request the #1 leaderboard run of a level to race against as a ghost
+     * @param levelId The level ID
+     */
+    public requestGhostRun(levelId: number): void {
+        if (!this.room || !this.playerId) return;
+        
+        try {
+            console.log(`Requesting ghost run for level ${levelId}`);
+            this.room.send("get_ghost_run", { levelId });
+        } catch (error) {
+            console.error("Failed to request ghost run:", error);
+        }
+    }
+
     /**
      * Update signs with highscores data
      */
@@ -543,10 +712,11 @@ export class Network {
         
         // For each sign in the level
         this.game.level.signs.forEach(sign => {
-            // If we have highscores for this level ID, update the sign
-            const levelIdStr = sign.getLevelId().toString();
-            if (this.highscores[levelIdStr]) {
-                sign.setHighscores(this.highscores[levelIdStr]);
+            // Update every board we have received so far
+            for (const period of Object.values(HighscorePeriod)) {
+                if (this.highscores[period]) {
+                    sign.setHighscores(this.getHighscores(sign.getLevelId(), period), period);
+                }
             }
         });
     }
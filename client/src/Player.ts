@@ -4,6 +4,8 @@ import { Rope } from './Rope';
 import { SimpleText } from './SimpleText';
 import { Entity } from './Entity';
 import { LevelRenderer } from './LevelRenderer';
+import { Random } from '../../shared/Random';
+import { SnapshotBuffer } from './SnapshotBuffer';
 
 export enum MovementState {
     OnGround,
@@ -22,15 +24,25 @@ export class Player extends Entity {
     public debugMode: boolean = false;
     // Fixed head position for network players
     public fixedHeadPosition: THREE.Vector3 | null = null;
+    // Full body snapshots for network players, played back in fixedUpdate
+    public snapshotBuffer: SnapshotBuffer | null = null;
+    // Rope held by a network player, only drawn, it never pulls on the local rope
+    public networkRope: Rope | null = null;
     private blinkTimer: number = 0;
     private blinkDuration: number = 0;
-    private nextBlinkTime: number = Math.random() * 60 + 20; // 20-80 frames
+    private nextBlinkTime: number;
     private isBlinking: boolean = false;
     // Current rope the player is holding
     public rope: Rope | null = null;
     public notOnGroundTimer: number = 0;
     public movementState: MovementState = MovementState.OnGround;
+    // Multiplier on the gravity of the body, changed by level triggers
+    public gravityScale: number = 1.0;
     public localPlayer: boolean = false;
+    // Ghost players replay a recorded run and are drawn translucent
+    public isGhost: boolean = false;
+    // Seeded by the level so the player's simulation is deterministic
+    public random: Random;
 
     // Customization properties
     public color: THREE.Color = new THREE.Color(0x77dd77); // Default player color
@@ -47,12 +59,14 @@ export class Player extends Entity {
     private currentRenderedUsername: string = "";
     private scene: THREE.Scene | null = null;
 
-    constructor(id: string, localPlayer: boolean, username: string = "") { 
+    constructor(id: string, localPlayer: boolean, username: string = "", random: Random = new Random()) { 
         super();
         this.id = id;
         this.verletBody = new VerletBody();
         this.localPlayer = localPlayer;
         this.username = username;
+        this.random = random;
+        this.nextBlinkTime = this.random.next() * 60 + 20; // 20-80 frames
 
         const scale = 1.0;
         const baseRadius = scale * 0.4;
@@ -315,6 +329,12 @@ export class Player extends Entity {
             });
         });
         
+        // The body already applies normal gravity, add the difference when it is scaled
+        if (this.gravityScale !== 1.0) {
+            const extraGravity = new THREE.Vector3(0, -this.verletBody.gravity * (this.gravityScale - 1.0), 0);
+            particles.forEach(particle => particle.applyImpulse(extraGravity));
+        }
+        
         // Update physics - call this after all forces have been applied
         this.verletBody.update();
 
@@ -349,8 +369,17 @@ export class Player extends Entity {
                 break;
         }
 
-        // For networked players, force head position to last received position
-        if (this.fixedHeadPosition && this.id !== 'local') {
+        // For networked players, follow the buffered body snapshots
+        const snapshot = this.snapshotBuffer?.sample(performance.now());
+        if (snapshot) {
+            particles.forEach((particle, i) => {
+                particle.position.copy(snapshot.positions[i]);
+                particle.previousPosition.copy(particle.position);
+            });
+            this.movementState = snapshot.movementState;
+            this.networkRope = snapshot.rope;
+        } else if (this.fixedHeadPosition && this.id !== 'local') {
+            // Only the head position is known, force it to the last received position
             headParticle.position.copy(this.fixedHeadPosition);
             headParticle.previousPosition.copy(this.fixedHeadPosition);
         }
@@ -396,6 +425,20 @@ export class Player extends Entity {
         });
     }
 
+    /**
+     * Put the player back at a checkpoint, dropping any rope and all momentum
+     * @param position The position to respawn at
+     */
+    public respawn(position: THREE.Vector3): void {
+        this.setPosition(position);
+        this.verletBody.getParticles().forEach(particle => {
+            particle.previousPosition.copy(particle.position);
+        });
+        this.rope = null;
+        this.movementState = MovementState.InAir;
+        this.notOnGroundTimer = 11;
+    }
+
     public setDebugMode(debugMode: boolean): void {
         this.debugMode = debugMode;
     }
@@ -414,7 +457,7 @@ export class Player extends Entity {
                 
                 // Reset for next blink
                 this.blinkTimer = 0;
-                this.nextBlinkTime = Math.random() * 60 + 20; // 20-80 frames
+                this.nextBlinkTime = this.random.next() * 60 + 20; // 20-80 frames
             }
         } 
         // Not blinking, check if it's time to blink
@@ -423,7 +466,7 @@ export class Player extends Entity {
             this.isBlinking = true;
             
             // Set blink duration 3 to 5 frames
-            this.blinkDuration = 3 + Math.random() * 5; 
+            this.blinkDuration = 3 + this.random.next() * 5; 
             this.blinkTimer = 0;
         }
     }
@@ -440,6 +483,17 @@ export class Player extends Entity {
         const constraints = this.verletBody.getConstraints();
         const headParticle = particles[0]; // First particle is the head
         
+        // Ghosts only draw their body, without eyes or debug arrows
+        if (this.isGhost) {
+            particles.forEach(particle => {
+                renderer.renderGhostSphere(particle.position, particle.radius, 0xccccff);
+            });
+            constraints.forEach(constraint => {
+                renderer.renderGhostBeam(constraint.a.position, constraint.b.position, 0.3, 0.3, undefined, 0xccccff);
+            });
+            return;
+        }
+        
         // Use custom color or different colors for local vs remote players
         const particleColor = this.localPlayer ? this.color.getHex() : 0x6495ed;  // Custom color for local, blue for others
         const constraintColor = this.localPlayer ? new THREE.Color(this.color).multiplyScalar(1.2).getHex() : 0x88aaff;
@@ -473,6 +527,13 @@ export class Player extends Entity {
             );
         });
         
+        // Connect a network player's hands to the rope it holds, its swing is not simulated locally
+        if (this.networkRope) {
+            const handMidpoint = new THREE.Vector3().addVectors(particles[8].position, particles[10].position).multiplyScalar(0.5);
+            const ropeEnd = this.networkRope.getEndPosition();
+            renderer.renderBeam(handMidpoint, ropeEnd, 0.1, 0.1, undefined, this.networkRope.color);
+        }
+        
         // Draw eyes using instanced rendering - now using lastMovementDir instead of forward
         if (!this.isBlinking) {
             // Define constants for eye rendering
@@ -11,14 +11,20 @@ export class InstancedRenderer {
     private beamMesh: THREE.InstancedMesh;
     private sphereMesh: THREE.InstancedMesh;
     private lightBeamMesh: THREE.InstancedMesh;  // New mesh for light beams
+    private ghostBeamMesh: THREE.InstancedMesh;  // See-through meshes for ghost players
+    private ghostSphereMesh: THREE.InstancedMesh;
     
     // Instance counts
     private maxBeams: number = 1000;
     private maxSpheres: number = 10000;
     private maxLightBeams: number = 1000;  // New count
+    private maxGhostBeams: number = 100;
+    private maxGhostSpheres: number = 200;
     private beamCount: number = 0;
     private sphereCount: number = 0;
     private lightBeamCount: number = 0;  // New counter
+    private ghostBeamCount: number = 0;
+    private ghostSphereCount: number = 0;
     
     // Reusable objects to avoid garbage collection
     private tempMatrix: THREE.Matrix4 = new THREE.Matrix4();
@@ -71,6 +77,22 @@ export class InstancedRenderer {
         this.lightBeamMesh.castShadow = false;
         this.lightBeamMesh.receiveShadow = false;
         this.scene.add(this.lightBeamMesh);
+        
+        // Create ghost meshes - same geometry as beams and spheres but translucent
+        const ghostMaterial = new THREE.MeshToonMaterial({
+            transparent: true,
+            opacity: 0.35,
+            depthWrite: false
+        });
+        this.ghostBeamMesh = new THREE.InstancedMesh(beamGeometry, ghostMaterial, this.maxGhostBeams);
+        this.ghostBeamMesh.count = 0;
+        this.ghostBeamMesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        this.scene.add(this.ghostBeamMesh);
+        
+        this.ghostSphereMesh = new THREE.InstancedMesh(sphereGeometry, ghostMaterial, this.maxGhostSpheres);
+        this.ghostSphereMesh.count = 0;
+        this.ghostSphereMesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        this.scene.add(this.ghostSphereMesh);
     }
     
     /**
@@ -80,9 +102,13 @@ export class InstancedRenderer {
         this.beamCount = 0;
         this.sphereCount = 0;
         this.lightBeamCount = 0;
+        this.ghostBeamCount = 0;
+        this.ghostSphereCount = 0;
         this.beamMesh.count = 0;
         this.sphereMesh.count = 0;
         this.lightBeamMesh.count = 0;
+        this.ghostBeamMesh.count = 0;
+        this.ghostSphereMesh.count = 0;
     }
     
     /**
@@ -353,6 +379,73 @@ export class InstancedRenderer {
         if (this.lightBeamMesh.instanceColor) this.lightBeamMesh.instanceColor.needsUpdate = true;
     }
     
+    /**
+     * Render a translucent beam for a ghost player
+     * @param from Start position
+     * @param to End position
+     * @param width Width of the beam
+     * @param height Height of the beam
+     * @param up Up vector for orienting the beam (default is Y-up)
+     * @param color Color of the beam
+     */
+    public renderGhostBeam(
+        from: THREE.Vector3, 
+        to: THREE.Vector3, 
+        width: number = 0.2, 
+        height: number = 0.2, 
+        up: THREE.Vector3 = this.upVector,
+        color: THREE.Color | number = 0xffffff
+    ): void {
+        if (this.ghostBeamCount >= this.maxGhostBeams) {
+            console.warn('Maximum number of ghost beams reached');
+            return;
+        }
+        
+        // Same transform as renderBeam
+        this.tempPosition.copy(from).add(to).multiplyScalar(0.5);
+        this.tempScale.copy(to).sub(from);
+        const length = this.tempScale.length();
+        this.tempScale.normalize();
+        this.tempQuaternion.setFromUnitVectors(this.upVector, this.tempScale);
+        this.tempScale.set(width, length, height);
+        this.tempMatrix.compose(this.tempPosition, this.tempQuaternion, this.tempScale);
+        this.ghostBeamMesh.setMatrixAt(this.ghostBeamCount, this.tempMatrix);
+        
+        this.tempColor.set(color);
+        this.ghostBeamMesh.setColorAt(this.ghostBeamCount, this.tempColor);
+        
+        this.ghostBeamCount++;
+        this.ghostBeamMesh.count = this.ghostBeamCount;
+    }
+    
+    /**
+     * Render a translucent sphere for a ghost player
+     * @param center Center position of the sphere
+     * @param radius Radius of the sphere
+     * @param color Color of the sphere
+     */
+    public renderGhostSphere(
+        center: THREE.Vector3, 
+        radius: number = 1.0, 
+        color: THREE.Color | number = 0xffffff
+    ): void {
+        if (this.ghostSphereCount >= this.maxGhostSpheres) {
+            console.warn('Maximum number of ghost spheres reached');
+            return;
+        }
+        
+        this.tempScale.set(radius, radius, radius);
+        this.tempQuaternion.identity();
+        this.tempMatrix.compose(center, this.tempQuaternion, this.tempScale);
+        this.ghostSphereMesh.setMatrixAt(this.ghostSphereCount, this.tempMatrix);
+        
+        this.tempColor.set(color);
+        this.ghostSphereMesh.setColorAt(this.ghostSphereCount, this.tempColor);
+        
+        this.ghostSphereCount++;
+        this.ghostSphereMesh.count = this.ghostSphereCount;
+    }
+    
     /**
      * Update the meshes after all instances have been added
      * This must be called after rendering all beams and spheres for a frame
@@ -362,6 +455,8 @@ export class InstancedRenderer {
         this.beamMesh.count = this.beamCount;
         this.sphereMesh.count = this.sphereCount;
         this.lightBeamMesh.count = this.lightBeamCount;
+        this.ghostBeamMesh.count = this.ghostBeamCount;
+        this.ghostSphereMesh.count = this.ghostSphereCount;
 
         this.beamMesh.computeBoundingSphere();
         this.beamMesh.computeBoundingBox();
@@ -370,15 +465,21 @@ export class InstancedRenderer {
         this.sphereMesh.computeBoundingBox();
         this.lightBeamMesh.computeBoundingSphere();
         this.lightBeamMesh.computeBoundingBox();
+        this.ghostBeamMesh.computeBoundingSphere();
+        this.ghostSphereMesh.computeBoundingSphere();
         
         // Update the instance matrices and colors
         this.beamMesh.instanceMatrix.needsUpdate = true;
         this.sphereMesh.instanceMatrix.needsUpdate = true;
         this.lightBeamMesh.instanceMatrix.needsUpdate = true;
+        this.ghostBeamMesh.instanceMatrix.needsUpdate = true;
+        this.ghostSphereMesh.instanceMatrix.needsUpdate = true;
         
         if (this.beamMesh.instanceColor) this.beamMesh.instanceColor.needsUpdate = true;
         if (this.sphereMesh.instanceColor) this.sphereMesh.instanceColor.needsUpdate = true;
         if (this.lightBeamMesh.instanceColor) this.lightBeamMesh.instanceColor.needsUpdate = true;
+        if (this.ghostBeamMesh.instanceColor) this.ghostBeamMesh.instanceColor.needsUpdate = true;
+        if (this.ghostSphereMesh.instanceColor) this.ghostSphereMesh.instanceColor.needsUpdate = true;
     }
 
     /**
@@ -403,5 +504,12 @@ export class InstancedRenderer {
             this.lightBeamMesh.material.dispose();
         }
         this.scene.remove(this.lightBeamMesh);
+        
+        // Ghost meshes share their geometry with the beam and sphere meshes
+        if (this.ghostSphereMesh.material instanceof THREE.Material) {
+            this.ghostSphereMesh.material.dispose();
+        }
+        this.scene.remove(this.ghostBeamMesh);
+        this.scene.remove(this.ghostSphereMesh);
     }
 }
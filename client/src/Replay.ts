@@ -0,0 +1,120 @@
+import { InputLog, ReplayData } from '../../shared/InputLog';
+
+/**
+ * Class for storing, sharing and loading recorded runs
+ */
+export class Replay {
+    /**
+     * Store a run as the personal best for its level if it is faster than the stored one
+     * @param replay The finished run
+     * @returns True if the run is the new personal best
+     */
+    public static saveBestReplay(replay: ReplayData): boolean {
+        const best = this.loadBestReplay(replay.levelIdx);
+        if (best && best.ticks <= replay.ticks) {
+            return false;
+        }
+
+        try {
+            localStorage.setItem(`replay_best_${replay.levelIdx}`, JSON.stringify(replay));
+        } catch (error) {
+            console.error("Failed to store replay:", error);
+            return false;
+        }
+        console.log(`New personal best replay for level ${replay.levelIdx}: ${replay.ticks} ticks`);
+        return true;
+    }
+
+    /**
+     * Get the personal best run for a level
+     * @param levelIdx The level index
+     * @returns The stored run, or null if there is none
+     */
+    public static loadBestReplay(levelIdx: number): ReplayData | null {
+        const json = localStorage.getItem(`replay_best_${levelIdx}`);
+        return json ? this.parseReplay(json) : null;
+    }
+
+    /**
+     * Parse and validate a replay
+     * @param jsonString JSON string containing the replay
+     * @returns The replay, or null if it is invalid
+     */
+    public static parseReplay(jsonString: string): ReplayData | null {
+        try {
+            const data = JSON.parse(jsonString);
+            if (typeof data.levelIdx !== 'number' || typeof data.seed !== 'number') {
+                return null;
+            }
+
+            const inputLog = InputLog.fromFrames(data.frames);
+            if (!inputLog) {
+                return null;
+            }
+
+            return {
+                levelIdx: data.levelIdx,
+                seed: data.seed,
+                ticks: inputLog.tickCount,
+                username: typeof data.username === 'string' ? data.username : "",
+                frames: inputLog.frames,
+                splits: Array.isArray(data.splits) ? data.splits.map((ticks: any) => typeof ticks === 'number' ? ticks : null) : undefined
+            };
+        } catch (error) {
+            console.error("Error parsing replay:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Download a replay to a file so it can be shared
+     * @param replay The replay to save
+     */
+    public static downloadReplay(replay: ReplayData): void {
+        const jsonString = JSON.stringify(replay);
+        const filename = `replay_level${replay.levelIdx}_${replay.ticks}.json`;
+
+        const blob = new Blob([jsonString], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = filename;
+        a.click();
+
+        // Clean up
+        URL.revokeObjectURL(url);
+
+        console.log(`Replay saved to ${filename}`);
+    }
+
+    /**
+     * Load a replay from a file using file picker
+     * @param callback Function called with the loaded replay, or null if loading failed
+     */
+    public static loadReplayFromFile(callback: (replay: ReplayData | null) => void): void {
+        const fileInput = document.createElement('input');
+        fileInput.type = 'file';
+        fileInput.accept = '.json';
+
+        fileInput.onchange = (event) => {
+            const file = (event.target as HTMLInputElement).files?.[0];
+            if (!file) {
+                callback(null);
+                return;
+            }
+
+            const reader = new FileReader();
+            reader.onload = (e) => {
+                const replay = this.parseReplay(e.target?.result as string);
+                if (!replay) {
+                    alert("Error loading replay. See console for details.");
+                }
+                callback(replay);
+            };
+
+            reader.readAsText(file);
+        };
+
+        fileInput.click();
+    }
+}
@@ -26,6 +26,19 @@ export class RigidBody extends Body {
     public time: number = 0;
 
     public customUpdate: (time: number, self: RigidBody) => void = () => {};
+
+    // Simulated bodies fall, collide with the level and with each other, and players push them.
+    // Bodies moved by customUpdate leave this off, simulated bodies bump into them but can't push them.
+    public simulated: boolean = false;
+    public gravity: number = 0.04; // Same pull as the players, per tick
+    public restitution: number = 0.1; // 0 = no bounce, 1 = full bounce
+    public friction: number = 0.5;
+    public damping: number = 0.99; // Velocity kept each tick
+
+    // Pinned bodies keep their center in place but still turn, like a see-saw on its pivot
+    public pinned: boolean = false;
+    // How much a simulated body turns around each world axis, (0, 0, 1) only tips it around Z
+    public angularFactor: THREE.Vector3 = new THREE.Vector3(1, 1, 1);
     
     /**
      * Create a rigid body
@@ -211,7 +224,9 @@ export class RigidBody extends Body {
         if (this.mass <= 0) return; // Static bodies don't move
         
         // Apply linear velocity change: J = m*Δv -> Δv = J/m
-        this.velocity.add(impulse.clone().multiplyScalar(this.invMass));
+        if (!this.pinned) {
+            this.velocity.add(impulse.clone().multiplyScalar(this.invMass));
+        }
         
         // Calculate angular impulse
         const relativePos = point.clone().sub(this.shape.position);
@@ -219,11 +234,39 @@ export class RigidBody extends Body {
         
         // Apply angular velocity change
         this.angularVelocity.add(new THREE.Vector3(
-            angularImpulse.x * this.invInertia.x,
-            angularImpulse.y * this.invInertia.y,
-            angularImpulse.z * this.invInertia.z
+            angularImpulse.x * this.invInertia.x * this.angularFactor.x,
+            angularImpulse.y * this.invInertia.y * this.angularFactor.y,
+            angularImpulse.z * this.invInertia.z * this.angularFactor.z
         ));
     }
+
+    /**
+     * Velocity of the point of the body at a world position
+     * @param point Point in world space
+     */
+    getVelocityAt(point: THREE.Vector3): THREE.Vector3 {
+        const relativePos = point.clone().sub(this.shape.position);
+        return new THREE.Vector3().crossVectors(this.angularVelocity, relativePos).add(this.velocity);
+    }
+
+    /**
+     * How easily an impulse along a direction at a point changes the velocity of that point,
+     * the inverse of the effective mass there. Bodies that aren't simulated don't give way at all.
+     * @param point Point of application (in world space)
+     * @param direction Unit direction of the impulse
+     */
+    getInverseMassAt(point: THREE.Vector3, direction: THREE.Vector3): number {
+        if (!this.simulated || this.mass <= 0) return 0;
+
+        const relativePos = point.clone().sub(this.shape.position);
+        const torque = new THREE.Vector3().crossVectors(relativePos, direction);
+        const turn = new THREE.Vector3(
+            torque.x * this.invInertia.x * this.angularFactor.x,
+            torque.y * this.invInertia.y * this.angularFactor.y,
+            torque.z * this.invInertia.z * this.angularFactor.z
+        );
+        return (this.pinned ? 0 : this.invMass) + turn.dot(torque);
+    }
     
     /**
      * Create a box-shaped rigid body
@@ -3,6 +3,25 @@ import { RigidBody } from './RigidBody';
 import { ConvexShape } from '../../shared/ConvexShape';
 import { Entity } from './Entity';
 
+// Saws move a fixed step per level tick, so replays and ghosts see them in the same place
+const TICKS_PER_SECOND = 60;
+
+export enum SawPathType {
+    Linear = "linear",        // Back and forth between the start and one point
+    Circular = "circular",    // Around a center point, keeping the height of the start
+    Waypoints = "waypoints",  // Through the points in order and back to the start
+}
+
+/**
+ * Path of a moving saw, stored as is in the level data
+ */
+export interface SawPath {
+    type: SawPathType;
+    points: number[][];  // Linear: the end point, circular: the center, waypoints: the points after the start
+    speed: number;       // Units per second along the path, negative runs it the other way
+    phase?: number;      // Fraction of a cycle the saw starts ahead, lets saws on one path follow each other
+}
+
 /**
  * Represents a dangerous sawblade obstacle that behaves like a regular rigid body
  */
@@ -15,6 +34,14 @@ export class Saw extends Entity {
     
     // Spinning speed
     public spinSpeed: number;
+    public radius: number;
+    public thickness: number;
+    
+    // Start of the path, or just the position for saws that don't move
+    public origin: THREE.Vector3;
+    public path: SawPath | null = null;
+    private pathPoints: THREE.Vector3[] = [];
+    private pathTick: number = 0;
     
     constructor(
         position: THREE.Vector3,
@@ -24,6 +51,9 @@ export class Saw extends Entity {
     ) {
         super();
         this.spinSpeed = spinSpeed;
+        this.radius = radius;
+        this.thickness = thickness;
+        this.origin = position.clone();
         
         // Create the octagonal prism shape (centered at origin)
         const points: THREE.Vector3[] = [];
@@ -120,6 +150,44 @@ export class Saw extends Entity {
         this.body.update();
     }
 
+    /**
+     * Set the path the saw moves along and put it at the start of it
+     * @param path The path, or null for a saw that stays in place
+     * @returns False if the path is invalid, the saw then stays in place
+     */
+    public setPath(path: SawPath | null): boolean {
+        this.path = null;
+        this.pathPoints = [];
+        
+        const valid = path === null || this.isValidPath(path);
+        if (path && valid) {
+            this.path = path;
+            this.pathPoints = path.points.map(point => new THREE.Vector3(point[0], point[1], point[2]));
+        } else if (!valid) {
+            console.warn("Invalid saw path, the saw stays in place", path);
+        }
+        
+        this.resetPath();
+        return valid;
+    }
+    
+    /**
+     * Put the saw back at the start of its path
+     */
+    public resetPath(): void {
+        this.pathTick = 0;
+        this.moveTo(this.getPathPosition(0));
+    }
+    
+    /**
+     * Move one tick along the path
+     */
+    public updatePath(): void {
+        if (!this.path) return;
+        this.pathTick++;
+        this.moveTo(this.getPathPosition(this.pathTick / TICKS_PER_SECOND));
+    }
+
     public getCollisionMesh(): THREE.Mesh {
         return this.mesh;
     }
@@ -137,9 +205,62 @@ export class Saw extends Entity {
     }
 
     public shapeChanged(): void {
+        // Dragging the saw in the editor moves its whole path along
+        const offset = this.body.shape.position.clone().sub(this.getPathPosition(this.pathTick / TICKS_PER_SECOND));
+        this.origin.add(offset);
+        this.pathPoints.forEach(point => point.add(offset));
+        if (this.path) {
+            this.path.points = this.pathPoints.map(point => [point.x, point.y, point.z]);
+        }
         this.body.update();
     }
     
+    private isValidPath(path: SawPath): boolean {
+        if (!Object.values(SawPathType).includes(path.type) || typeof path.speed !== 'number') return false;
+        if (!Array.isArray(path.points) || !path.points.every(point =>
+            Array.isArray(point) && point.length === 3 && point.every(value => typeof value === 'number')
+        )) return false;
+        if (path.phase !== undefined && typeof path.phase !== 'number') return false;
+        // Waypoint paths need at least one point, the others exactly one
+        return path.type === SawPathType.Waypoints ? path.points.length > 0 : path.points.length === 1;
+    }
+    
+    private getPathPosition(time: number): THREE.Vector3 {
+        if (!this.path) return this.origin.clone();
+        const phase = this.path.phase ?? 0;
+        
+        if (this.path.type === SawPathType.Circular) {
+            const center = this.pathPoints[0];
+            const offset = this.origin.clone().sub(center);
+            const radius = Math.hypot(offset.x, offset.z);
+            if (radius === 0) return this.origin.clone();
+            const angle = this.path.speed * time / radius + phase * Math.PI * 2;
+            return offset.applyAxisAngle(new THREE.Vector3(0, 1, 0), angle).add(center);
+        }
+        
+        // Linear and waypoint paths are loops through the start and the points
+        const points = [this.origin, ...this.pathPoints];
+        const lengths = points.map((point, i) => point.distanceTo(points[(i + 1) % points.length]));
+        const total = lengths.reduce((sum, length) => sum + length, 0);
+        if (total === 0) return this.origin.clone();
+        
+        let distance = ((this.path.speed * time + phase * total) % total + total) % total;
+        for (let i = 0; i < points.length; i++) {
+            if (distance <= lengths[i]) {
+                const alpha = lengths[i] > 0 ? distance / lengths[i] : 0;
+                return points[i].clone().lerp(points[(i + 1) % points.length], alpha);
+            }
+            distance -= lengths[i];
+        }
+        return this.origin.clone();
+    }
+    
+    private moveTo(position: THREE.Vector3): void {
+        this.body.shape.position.copy(position);
+        this.body.shape.updateTransform();
+        this.mesh.position.copy(position);
+    }
+    
     static create(
         position: THREE.Vector3,
         radius: number = 4.0,
@@ -1,9 +1,12 @@
 import * as THREE from 'three';
 import { Level } from './Level';
-import { LevelBuilder } from './LevelBuilder';
+import { PlatformShape, StaticBody } from './StaticBody';
 import { Rope } from './Rope';
-import { ActionArea } from './ActionArea';
+import { ActionArea, TriggerAction } from './ActionArea';
 import { Updraft } from './Updraft';
+import { Saw, SawPath } from './Saw';
+import { Easing, MovingPlatform, PathMode } from './MovingPlatform';
+import { LEVEL_FORMAT_VERSION, LevelFormat } from './LevelFormat';
 
 /**
  * Interface for level data
@@ -11,20 +14,26 @@ import { Updraft } from './Updraft';
 export interface LevelData {
     name: string;
     author: string;
-    version: number;
+    version: number;  // LEVEL_FORMAT_VERSION when saved, older levels are migrated on load
     created: string;
     platforms: PlatformData[];
+    movingPlatforms: MovingPlatformData[];
     ropes: RopeData[];
     saws: SawData[];
     actionAreas: ActionAreaData[];
     updrafts: UpdraftData[];
+    checkpoints: CheckpointData[];  // In course order, the last one reached is the respawn point
+    collectibles: CollectibleData[];
+    requireAllCollectibles: boolean;  // Keep the finish locked until every collectible is picked up
     playerStartPosition?: number[];
+    parTimes: number[];  // Times in seconds to beat for 1, 2 and 3 stars, empty for no stars
 }
 
 /**
  * Interface for platform data
  */
 interface PlatformData {
+    shape: PlatformShape;  // The unit shape that is scaled, rotated and moved
     position: number[];
     rotation: number[];
     scale: number[];
@@ -32,6 +41,27 @@ interface PlatformData {
     name: string;
 }
 
+/**
+ * Interface for moving platform data
+ */
+interface MovingPlatformData {
+    size: number[];
+    color: string;
+    mode: PathMode;
+    keyframes: KeyframeData[];  // The platform starts at the first keyframe
+    name: string;
+}
+
+/**
+ * Interface for a keyframe of a moving platform path
+ */
+interface KeyframeData {
+    position: number[];
+    rotation: number[];
+    duration: number;  // Seconds to travel to the next keyframe
+    easing?: Easing;
+}
+
 /**
  * Interface for rope data
  */
@@ -53,6 +83,7 @@ interface SawData {
     thickness: number;
     spinSpeed: number;
     name: string;
+    path?: SawPath;  // Saws without a path stay in place
 }
 
 /**
@@ -63,6 +94,7 @@ interface ActionAreaData {
     size: number[];
     triggerOnce: boolean;
     name: string;
+    actions: TriggerAction[];  // Run in order when triggered, areas without actions finish the level
 }
 
 /**
@@ -75,6 +107,24 @@ interface UpdraftData {
     name: string;
 }
 
+/**
+ * Interface for checkpoint data
+ */
+interface CheckpointData {
+    position: number[];
+    size: number[];
+    name: string;
+}
+
+/**
+ * Interface for collectible data
+ */
+interface CollectibleData {
+    position: number[];
+    radius: number;
+    name: string;
+}
+
 /**
  * Class for serializing and deserializing level data
  */
@@ -85,16 +135,14 @@ export class Serialize {
      * @returns JSON string of the level data
      */
     public static saveLevel(level: Level): string {
-        // Import Saw dynamically to avoid circular dependencies
-        import('./Saw').then(({ Saw }) => {});
-        
         // Create level data object
         const levelData: LevelData = {
             name: "Custom Level",
             author: "Level Editor",
-            version: 1,
+            version: LEVEL_FORMAT_VERSION,
             created: new Date().toISOString(),
             platforms: level.staticBodies.map(platform => ({
+                shape: platform.platformShape,
                 position: [
                     platform.mesh.position.x,
                     platform.mesh.position.y,
@@ -115,6 +163,24 @@ export class Serialize {
                     : '#888888',
                 name: platform.mesh.name || ''
             })),
+            movingPlatforms: level.movingPlatforms.map(platform => ({
+                size: [
+                    platform.shape.scaling.x,
+                    platform.shape.scaling.y,
+                    platform.shape.scaling.z
+                ],
+                color: platform.mesh.material instanceof THREE.MeshStandardMaterial
+                    ? '#' + platform.mesh.material.color.getHexString()
+                    : '#888888',
+                mode: platform.mode,
+                keyframes: platform.keyframes.map(keyframe => ({
+                    position: [keyframe.position.x, keyframe.position.y, keyframe.position.z],
+                    rotation: [keyframe.rotation.x, keyframe.rotation.y, keyframe.rotation.z],
+                    duration: keyframe.duration,
+                    easing: keyframe.easing
+                })),
+                name: platform.name || `movingplatform_${Date.now()}`
+            })),
             ropes: level.ropes.map(rope => {
                 // Get the start position from the fixedPoint property
                 const startPos = rope.fixedPoint.clone();
@@ -131,27 +197,24 @@ export class Serialize {
                     name: rope.name || `rope_${Date.now()}`
                 };
             }),
-            saws: level.entities
-                .filter(entity => entity.constructor.name === 'Saw')
-                .map(saw => {
-                    const mesh = saw.getCollisionMesh();
-                    return {
-                        position: [
-                            mesh.position.x,
-                            mesh.position.y,
-                            mesh.position.z
-                        ],
-                        rotation: [
-                            mesh.rotation.x,
-                            mesh.rotation.y,
-                            mesh.rotation.z
-                        ],
-                        radius: 4.0, // We'll use default values since they're not easily accessible
-                        thickness: 1.0,
-                        spinSpeed: 0.1,
-                        name: mesh.name || `saw_${Date.now()}`
-                    };
-                }),
+            saws: level.saws.map(saw => ({
+                // The start of the path, the saw may have moved along it already
+                position: [
+                    saw.origin.x,
+                    saw.origin.y,
+                    saw.origin.z
+                ],
+                rotation: [
+                    saw.mesh.rotation.x,
+                    saw.mesh.rotation.y,
+                    saw.mesh.rotation.z
+                ],
+                radius: saw.radius,
+                thickness: saw.thickness,
+                spinSpeed: saw.spinSpeed,
+                name: saw.mesh.name || `saw_${Date.now()}`,
+                path: saw.path ?? undefined
+            })),
             actionAreas: level.actionAreas.map(area => {
                 const shape = area.getShape();
                 if (!shape) {
@@ -159,8 +222,9 @@ export class Serialize {
                     return {
                         position: [0, 0, 0],
                         size: [1, 1, 1],
-                        triggerOnce: false,
-                        name: `actionarea_${Date.now()}`
+                        triggerOnce: area.triggerOnce,
+                        name: area.name || `actionarea_${Date.now()}`,
+                        actions: area.actions
                     };
                 }
                 
@@ -182,8 +246,9 @@ export class Serialize {
                         size.y,
                         size.z
                     ],
-                    triggerOnce: false, // We can't access this private property, so default to false
-                    name: `actionarea_${Date.now()}`
+                    triggerOnce: area.triggerOnce,
+                    name: area.name || `actionarea_${Date.now()}`,
+                    actions: area.actions
                 };
             }),
             updrafts: level.updrafts.map(updraft => {
@@ -194,7 +259,7 @@ export class Serialize {
                         position: [0, 0, 0],
                         size: [1, 20, 1],
                         strength: 0.1,
-                        name: `updraft_${Date.now()}`
+                        name: updraft.name || `updraft_${Date.now()}`
                     };
                 }
                 
@@ -217,12 +282,42 @@ export class Serialize {
                         size.z
                     ],
                     strength: 0.1, // Default since we can't access private property
-                    name: `updraft_${Date.now()}`
+                    name: updraft.name || `updraft_${Date.now()}`
+                };
+            }),
+            checkpoints: level.checkpoints.map(checkpoint => {
+                const bounds = checkpoint.getBoundingBox();
+                const size = new THREE.Vector3();
+                bounds.getSize(size);
+                
+                return {
+                    position: [
+                        checkpoint.shape.position.x,
+                        checkpoint.shape.position.y,
+                        checkpoint.shape.position.z
+                    ],
+                    size: [
+                        size.x,
+                        size.y,
+                        size.z
+                    ],
+                    name: checkpoint.name || `checkpoint_${Date.now()}`
                 };
             }),
+            collectibles: level.collectibles.map(collectible => ({
+                position: [
+                    collectible.shape.position.x,
+                    collectible.shape.position.y,
+                    collectible.shape.position.z
+                ],
+                radius: collectible.radius,
+                name: collectible.name || `collectible_${Date.now()}`
+            })),
+            requireAllCollectibles: level.requireAllCollectibles,
             playerStartPosition: level.playerStartPosition ? 
                 [level.playerStartPosition.x, level.playerStartPosition.y, level.playerStartPosition.z] : 
-                undefined
+                undefined,
+            parTimes: level.parTimes
         };
         
         // Convert to JSON string
@@ -271,31 +366,41 @@ export class Serialize {
      */
     public static loadLevelFromString(level: Level, jsonString: string, scene?: THREE.Scene): boolean {
         try {
-            const levelData = JSON.parse(jsonString) as LevelData;
+            const levelData = LevelFormat.migrate(JSON.parse(jsonString)) as LevelData;
+            
+            // Check before clearing, so a broken file leaves the current level alone
+            const errors = LevelFormat.validate(levelData);
+            if (errors.length > 0) {
+                console.error(`Invalid level data:\n  ${errors.join('\n  ')}`);
+                return false;
+            }
             
             // Clear existing level (entities will be re-added)
             level.staticBodies = [];
+            level.movingPlatforms = [];
             level.entities = [];
+            level.broadphase.clear();
+            level.saws = [];
             level.ropes = [];
             level.actionAreas = [];
             level.updrafts = [];
+            level.checkpoints = [];
+            level.activeCheckpoint = null;
+            level.collectibles = [];
+            level.lockedAreas = [];
             
             // Load platforms
             if (levelData.platforms && Array.isArray(levelData.platforms)) {
                 levelData.platforms.forEach((platformData: PlatformData) => {
-                    // Create a platform with a temporary position
-                    const platform = LevelBuilder.createHorizontalPlatform(
-                        level,
-                        new THREE.Vector3(0, 0, 0), // Create at origin first
-                        1, // Default width 
-                        1, // Default depth
-                        1, // Default height
+                    // Create a unit platform at the origin first
+                    const platform = level.addStaticBody(StaticBody.createShaped(
+                        platformData.shape,
                         new THREE.MeshStandardMaterial({ 
                             color: new THREE.Color(platformData.color || '#FF0000'),
                             roughness: 0.7
                         }),
                         platformData.name || `platform_${Date.now()}`
-                    );
+                    ));
                     
                     if (platform && platform.mesh) {
                         // Now explicitly set position, rotation, and scale
@@ -327,6 +432,7 @@ export class Serialize {
                             ));
                             platform.shape.scaling.copy(platform.mesh.scale);
                             platform.shape.updateTransform();
+                            level.updateBroadphase(platform);
                         }
                         
                         // Add to scene if provided (but don't add to level again)
@@ -339,6 +445,49 @@ export class Serialize {
                 console.log(`Loaded level with ${levelData.platforms.length} platforms`);
             }
             
+            // Load moving platforms, older levels have none
+            if (levelData.movingPlatforms && Array.isArray(levelData.movingPlatforms)) {
+                levelData.movingPlatforms.forEach((platformData: MovingPlatformData) => {
+                    const keyframes = platformData.keyframes.map(keyframeData => ({
+                        position: new THREE.Vector3(
+                            keyframeData.position[0],
+                            keyframeData.position[1],
+                            keyframeData.position[2]
+                        ),
+                        rotation: new THREE.Euler(
+                            keyframeData.rotation ? keyframeData.rotation[0] : 0,
+                            keyframeData.rotation ? keyframeData.rotation[1] : 0,
+                            keyframeData.rotation ? keyframeData.rotation[2] : 0
+                        ),
+                        duration: keyframeData.duration,
+                        easing: keyframeData.easing === Easing.EaseInOut ? Easing.EaseInOut : Easing.Linear
+                    }));
+                    
+                    const platform = new MovingPlatform(
+                        new THREE.Vector3(
+                            platformData.size[0],
+                            platformData.size[1],
+                            platformData.size[2]
+                        ),
+                        keyframes,
+                        platformData.mode === PathMode.Loop ? PathMode.Loop : PathMode.PingPong,
+                        new THREE.MeshStandardMaterial({
+                            color: new THREE.Color(platformData.color || '#FF0000'),
+                            roughness: 0.7
+                        })
+                    );
+                    platform.name = platformData.name || '';
+                    level.addMovingPlatform(platform);
+                    
+                    // Add to scene if provided (but don't add to level again)
+                    if (scene && !platform.mesh.parent) {
+                        scene.add(platform.mesh);
+                    }
+                });
+                
+                console.log(`Loaded ${levelData.movingPlatforms.length} moving platforms`);
+            }
+            
             // Load ropes
             if (levelData.ropes && Array.isArray(levelData.ropes)) {
                 levelData.ropes.forEach((ropeData: RopeData) => {
@@ -374,54 +523,56 @@ export class Serialize {
                 console.log(`Loaded level with ${levelData.platforms.length} platforms and ${levelData.ropes.length} ropes`);
             }
             
-            // Load saws
+            // Load saws synchronously so they exist before the first tick (replays depend on it)
             if (levelData.saws && Array.isArray(levelData.saws)) {
-                // Import Saw dynamically
-                import('./Saw').then(({ Saw }) => {
-                    levelData.saws.forEach((sawData: SawData) => {
-                        // Create a saw at the correct position directly
-                        const position = new THREE.Vector3(
-                            sawData.position[0],
-                            sawData.position[1],
-                            sawData.position[2]
-                        );
-                        
-                        // Create the saw with the correct position
-                        const saw = Saw.create(
-                            position,
-                            sawData.radius,
-                            sawData.thickness,
-                            sawData.spinSpeed,
+                levelData.saws.forEach((sawData: SawData) => {
+                    // Create a saw at the correct position directly
+                    const position = new THREE.Vector3(
+                        sawData.position[0],
+                        sawData.position[1],
+                        sawData.position[2]
+                    );
+                    
+                    // Create the saw with the correct position
+                    const saw = Saw.create(
+                        position,
+                        sawData.radius,
+                        sawData.thickness,
+                        sawData.spinSpeed,
+                    );
+                    
+                    // Apply rotation if provided
+                    if (sawData.rotation && sawData.rotation.length === 3) {
+                        saw.mesh.rotation.set(
+                            sawData.rotation[0],
+                            sawData.rotation[1],
+                            sawData.rotation[2]
                         );
                         
-                        // Apply rotation if provided
-                        if (sawData.rotation && sawData.rotation.length === 3) {
-                            saw.mesh.rotation.set(
+                        // Update the body's shape orientation
+                        if (saw.body && saw.body.shape) {
+                            saw.body.shape.orientation.setFromEuler(new THREE.Euler(
                                 sawData.rotation[0],
                                 sawData.rotation[1],
                                 sawData.rotation[2]
-                            );
-                            
-                            // Update the body's shape orientation
-                            if (saw.body && saw.body.shape) {
-                                saw.body.shape.orientation.setFromEuler(new THREE.Euler(
-                                    sawData.rotation[0],
-                                    sawData.rotation[1],
-                                    sawData.rotation[2]
-                                ));
-                                saw.body.shape.updateTransform();
-                            }
+                            ));
+                            saw.body.shape.updateTransform();
                         }
-                        
-                        // Name the saw
-                        saw.mesh.name = sawData.name || `saw_${Date.now()}`;
-                        
-                        // Add to level
-                        level.addSaw(saw);
-                    });
+                    }
+                    
+                    // Name the saw
+                    saw.mesh.name = sawData.name || `saw_${Date.now()}`;
                     
-                    console.log(`Loaded ${levelData.saws.length} saws`);
+                    // Put the saw at the start of its path
+                    if (sawData.path) {
+                        saw.setPath(sawData.path);
+                    }
+                    
+                    // Add to level
+                    level.addSaw(saw);
                 });
+                
+                console.log(`Loaded ${levelData.saws.length} saws`);
             }
             
             // Load action areas
@@ -451,6 +602,8 @@ export class Serialize {
                         placeholderCallback,
                         areaData.triggerOnce
                     );
+                    actionArea.name = areaData.name || '';
+                    actionArea.actions = Array.isArray(areaData.actions) ? areaData.actions : [];
                     
                     // Add to scene for editor selection
                     if (scene) {
@@ -482,6 +635,7 @@ export class Serialize {
                         size,
                         updraftData.strength
                     );
+                    updraft.name = updraftData.name || '';
                     
                     // Add to scene for editor selection
                     if (scene) {
@@ -492,6 +646,55 @@ export class Serialize {
                 console.log(`Loaded ${levelData.updrafts ? levelData.updrafts.length : 0} updrafts`);
             }
             
+            // Load checkpoints, older levels have none
+            if (levelData.checkpoints && Array.isArray(levelData.checkpoints)) {
+                levelData.checkpoints.forEach((checkpointData: CheckpointData) => {
+                    const checkpoint = level.addCheckpoint(
+                        new THREE.Vector3(
+                            checkpointData.position[0],
+                            checkpointData.position[1],
+                            checkpointData.position[2]
+                        ),
+                        new THREE.Vector3(
+                            checkpointData.size[0],
+                            checkpointData.size[1],
+                            checkpointData.size[2]
+                        )
+                    );
+                    checkpoint.name = checkpointData.name || '';
+                    
+                    // Add to scene for editor selection
+                    if (scene) {
+                        scene.add(checkpoint.getCollisionMesh());
+                    }
+                });
+                
+                console.log(`Loaded ${levelData.checkpoints.length} checkpoints`);
+            }
+            
+            // Load collectibles
+            if (levelData.collectibles && Array.isArray(levelData.collectibles)) {
+                levelData.collectibles.forEach((collectibleData: CollectibleData) => {
+                    const collectible = level.addCollectible(
+                        new THREE.Vector3(
+                            collectibleData.position[0],
+                            collectibleData.position[1],
+                            collectibleData.position[2]
+                        ),
+                        collectibleData.radius
+                    );
+                    collectible.name = collectibleData.name || '';
+                    
+                    // Add to scene for editor selection
+                    if (scene) {
+                        scene.add(collectible.getCollisionMesh());
+                    }
+                });
+                
+                console.log(`Loaded ${levelData.collectibles.length} collectibles`);
+            }
+            level.requireAllCollectibles = levelData.requireAllCollectibles === true;
+            
             // Load player start position if available
             if (levelData.playerStartPosition && levelData.playerStartPosition.length === 3) {
                 level.playerStartPosition = new THREE.Vector3(
@@ -506,6 +709,21 @@ export class Serialize {
                 console.log("No player start position found in level data, using default");
             }
             
+            // Load par times, levels without them award no stars
+            if (Array.isArray(levelData.parTimes) && levelData.parTimes.every(time => typeof time === 'number' && time > 0)) {
+                level.parTimes = levelData.parTimes;
+                console.log(`Loaded par times: ${levelData.parTimes.join('s, ')}s`);
+            } else {
+                level.parTimes = [];
+            }
+            
+            // Resolve the actions now that every entity they can refer to is loaded
+            level.actionAreas.forEach(area => {
+                if (area.actions.length > 0) {
+                    area.callback = level.createActionCallback(area.actions);
+                }
+            });
+            
             // Show metadata if available
             if (levelData.name || levelData.author) {
                 console.log(`Level info: ${levelData.name || 'Unnamed'} by ${levelData.author || 'Unknown'}`);
@@ -553,6 +771,9 @@ export class Serialize {
                     
                     // Load the level
                     const success = this.loadLevelFromString(level, content, scene);
+                    if (!success) {
+                        alert("Error loading level. See console for details.");
+                    }
                     if (callback) callback(success);
                     
                 } catch (error) {
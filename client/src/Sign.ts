@@ -1,5 +1,17 @@
 import * as THREE from 'three';
 import { Entity } from './Entity';
+import { HighscorePeriod } from '../../shared/types';
+
+// Order the boards are shown in and their titles on the sign
+const PERIODS = [HighscorePeriod.AllTime, HighscorePeriod.Weekly, HighscorePeriod.Daily];
+const PERIOD_TITLES: Record<HighscorePeriod, string> = {
+    [HighscorePeriod.AllTime]: 'ALL TIME',
+    [HighscorePeriod.Weekly]: 'THIS WEEK',
+    [HighscorePeriod.Daily]: 'TODAY'
+};
+
+// How long each board is shown before the sign moves on to the next
+const PERIOD_CYCLE_MS = 8000;
 
 /**
  * Sign class for displaying highscores on a textured mesh
@@ -9,8 +21,15 @@ export class Sign extends Entity {
     private texture: THREE.CanvasTexture;
     private canvas: HTMLCanvasElement;
     private context: CanvasRenderingContext2D;
-    private highscores: Array<{username: string, timeMs: number, stars: number}> = [];
+    private highscores: Record<HighscorePeriod, Array<{username: string, timeMs: number, stars: number}>> = {
+        [HighscorePeriod.Daily]: [],
+        [HighscorePeriod.Weekly]: [],
+        [HighscorePeriod.AllTime]: []
+    };
     private levelId: number;
+    // Board currently shown and when it was switched to
+    public period: HighscorePeriod = HighscorePeriod.AllTime;
+    private periodShownAt: number = performance.now();
     
     /**
      * Create a sign that displays highscores for a level
@@ -136,6 +155,11 @@ export class Sign extends Entity {
      * Render method - called by the renderer
      */
     public render(renderer: any): void {
+        // Take turns showing the daily, weekly and all-time boards
+        if (performance.now() - this.periodShownAt > PERIOD_CYCLE_MS) {
+            this.showPeriod(Sign.nextPeriod(this.period));
+        }
+        
         // Only update the texture occasionally to improve performance
         // We don't need to update every frame since the content rarely changes
         if (this._framesSinceUpdate > 30) { // Update roughly every second at 30fps
@@ -152,14 +176,35 @@ export class Sign extends Entity {
     
     /**
      * Set highscores for this sign
+     * @param highscores Entries of the board, fastest first
+     * @param period The board the entries belong to
      */
-    public setHighscores(highscores: Array<{username: string, timeMs: number, stars: number}>): void {
-        console.log(`Setting ${highscores.length} highscores for level ${this.levelId}`);
-        this.highscores = highscores;
+    public setHighscores(highscores: Array<{username: string, timeMs: number, stars: number}>, period: HighscorePeriod = HighscorePeriod.AllTime): void {
+        console.log(`Setting ${highscores.length} ${period} highscores for level ${this.levelId}`);
+        this.highscores[period] = highscores;
         // Update canvas with new highscores
+        if (period === this.period) {
+            this.updateCanvas();
+        }
+    }
+    
+    /**
+     * Switch the sign to another board, restarting the cycle through the boards
+     * @param period The board to show
+     */
+    public showPeriod(period: HighscorePeriod): void {
+        this.period = period;
+        this.periodShownAt = performance.now();
         this.updateCanvas();
     }
     
+    /**
+     * Get the board that comes after a board when cycling
+     */
+    public static nextPeriod(period: HighscorePeriod): HighscorePeriod {
+        return PERIODS[(PERIODS.indexOf(period) + 1) % PERIODS.length];
+    }
+    
     /**
      * Update the canvas with current highscores
      */
@@ -199,7 +244,7 @@ export class Sign extends Entity {
         // Draw the level title
         ctx.fillText(`LEVEL ${this.levelId}`, width / 2, 120);
         ctx.font = 'bold 160px Arial, sans-serif';
-        ctx.fillText(`HIGHSCORES`, width / 2, 320);
+        ctx.fillText(PERIOD_TITLES[this.period], width / 2, 320);
         
         // Reset shadow for the rest of the text
         ctx.shadowColor = 'transparent';
@@ -213,7 +258,8 @@ export class Sign extends Entity {
         ctx.stroke();
         
         // Display highscores
-        if (this.highscores.length === 0) {
+        const highscores = this.highscores[this.period];
+        if (highscores.length === 0) {
             // No highscores message
             ctx.font = 'bold 140px Arial, sans-serif';
             ctx.fillStyle = '#FFFFFF';
@@ -225,7 +271,7 @@ export class Sign extends Entity {
             // Draw highscores - up to 5 entries
             const startY = 660;
             const lineHeight = 320;
-            const maxScores = Math.min(5, this.highscores.length);
+            const maxScores = Math.min(5, highscores.length);
             
             // Column headers
             ctx.fillStyle = '#FFCC00';
@@ -239,7 +285,7 @@ export class Sign extends Entity {
             ctx.fillText('⭐', width * 0.88, startY - 100);
             
             for (let i = 0; i < maxScores; i++) {
-                const score = this.highscores[i];
+                const score = highscores[i];
                 const y = startY + i * lineHeight;
                 
                 // Row background with different colors for top 3
@@ -393,10 +439,10 @@ export class Sign extends Entity {
     }
     
     /**
-     * Get the sign's highscores
+     * Get the highscores of the board the sign shows
      */
     public getHighscores(): Array<{username: string, timeMs: number, stars: number}> {
-        return this.highscores;
+        return this.highscores[this.period];
     }
     
     /**
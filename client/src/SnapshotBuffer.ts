@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+import { MovementState } from './Player';
+import { Rope } from './Rope';
+
+interface Snapshot {
+    time: number;  // Local time the snapshot belongs to, in milliseconds
+    positions: THREE.Vector3[];
+    movementState: MovementState;
+    rope: Rope | null;
+}
+
+export interface SnapshotSample {
+    positions: THREE.Vector3[];
+    movementState: MovementState;
+    rope: Rope | null;
+}
+
+/**
+ * Jitter buffer for the pose snapshots of a network player.
+ * Snapshots are stamped with the sender's clock and played back a fixed delay behind,
+ * so uneven arrival times don't show as stutter.
+ */
+export class SnapshotBuffer {
+    // How far behind the newest snapshots playback runs
+    public interpolationDelayMs: number;
+    // How long to keep moving along the last known velocity when snapshots stop arriving
+    public maxExtrapolationMs: number;
+
+    // Stats for tuning, shown in the debug overlay
+    public bufferedMs: number = 0;
+    public jitterMs: number = 0;
+    public extrapolatedMs: number = 0;
+    public underruns: number = 0;
+    public droppedLate: number = 0;
+
+    private snapshots: Snapshot[] = [];
+    private clockOffset: number | null = null;
+    private lastArrival: number = 0;
+    private lastSenderTime: number = 0;
+    private extrapolating: boolean = false;
+
+    /**
+     * Create a new snapshot buffer
+     * @param interpolationDelayMs How far behind the newest snapshots playback runs
+     * @param maxExtrapolationMs How long to extrapolate when snapshots stop arriving
+     */
+    constructor(interpolationDelayMs: number = 100, maxExtrapolationMs: number = 250) {
+        this.interpolationDelayMs = interpolationDelayMs;
+        this.maxExtrapolationMs = maxExtrapolationMs;
+    }
+
+    /**
+     * Add a received snapshot
+     * @param senderTime Time the snapshot was taken, on the sender's clock
+     * @param arrivalTime Local time the snapshot arrived
+     * @param positions Positions of all particles, head first
+     * @param movementState Movement state of the player
+     * @param rope The rope the player holds, or null
+     */
+    public push(senderTime: number, arrivalTime: number, positions: THREE.Vector3[], movementState: MovementState, rope: Rope | null): void {
+        // Room state changes repeat snapshots we already have
+        if (senderTime <= this.lastSenderTime) return;
+
+        // Track the clock offset along the fastest arrivals, slowly forgetting old ones
+        const offset = arrivalTime - senderTime;
+        if (this.clockOffset === null || offset < this.clockOffset) {
+            this.clockOffset = offset;
+        } else {
+            this.clockOffset += (offset - this.clockOffset) * 0.01;
+        }
+
+        // Smoothed deviation of the arrival interval from the send interval
+        if (this.lastSenderTime > 0) {
+            const deviation = Math.abs((arrivalTime - this.lastArrival) - (senderTime - this.lastSenderTime));
+            this.jitterMs += (deviation - this.jitterMs) * 0.1;
+        }
+        this.lastArrival = arrivalTime;
+        this.lastSenderTime = senderTime;
+
+        const time = senderTime + this.clockOffset;
+        const last = this.snapshots[this.snapshots.length - 1];
+        if (last && time <= last.time) {
+            this.droppedLate++;
+            return;
+        }
+        this.snapshots.push({ time, positions, movementState, rope });
+    }
+
+    /**
+     * Get the pose to show at a point in time
+     * @param now Current local time in milliseconds
+     * @returns The interpolated or extrapolated pose, or null if nothing was received yet
+     */
+    public sample(now: number): SnapshotSample | null {
+        if (this.snapshots.length === 0) return null;
+
+        const renderTime = now - this.interpolationDelayMs;
+
+        // Drop snapshots that playback has passed, keeping one to interpolate from
+        while (this.snapshots.length > 2 && this.snapshots[1].time <= renderTime) {
+            this.snapshots.shift();
+        }
+
+        const first = this.snapshots[0];
+        const last = this.snapshots[this.snapshots.length - 1];
+        this.bufferedMs = Math.max(0, last.time - renderTime);
+
+        // Not enough history yet, hold the oldest pose
+        if (renderTime <= first.time) {
+            return first;
+        }
+
+        // Run out of snapshots, continue along the last velocity for a limited time
+        if (renderTime >= last.time) {
+            if (!this.extrapolating) {
+                this.extrapolating = true;
+                this.underruns++;
+            }
+            this.extrapolatedMs = Math.min(renderTime - last.time, this.maxExtrapolationMs);
+            if (this.snapshots.length < 2) {
+                return last;
+            }
+
+            const previous = this.snapshots[this.snapshots.length - 2];
+            const t = 1 + this.extrapolatedMs / (last.time - previous.time);
+            return this.blend(previous, last, t);
+        }
+        this.extrapolating = false;
+        this.extrapolatedMs = 0;
+
+        // Interpolate between the two snapshots around the render time
+        const next = this.snapshots[1];
+        const t = (renderTime - first.time) / (next.time - first.time);
+        return this.blend(first, next, t);
+    }
+
+    private blend(from: Snapshot, to: Snapshot, t: number): SnapshotSample {
+        return {
+            positions: from.positions.map((position, i) => new THREE.Vector3().lerpVectors(position, to.positions[i], t)),
+            movementState: t < 0.5 ? from.movementState : to.movementState,
+            rope: t < 0.5 ? from.rope : to.rope
+        };
+    }
+}
@@ -2,6 +2,12 @@ import * as THREE from 'three';
 import { ConvexShape } from '../../shared/ConvexShape';
 import { Entity } from './Entity';
 
+export enum PlatformShape {
+    Box = "box",
+    Wedge = "wedge",        // Ramp rising along x
+    Cylinder = "cylinder",
+}
+
 /**
  * Represents a static (non-moving) body in the game world
  * Static bodies form the level geometry that players can move over
@@ -16,6 +22,8 @@ export class StaticBody extends Entity {
     // Additional properties
     id: string;
     tag: string;
+    // Shape of the unit platform the level editor scales, boxes unless made with createShaped
+    platformShape: PlatformShape = PlatformShape.Box;
     
     /**
      * Create a static body
@@ -67,6 +75,34 @@ export class StaticBody extends Entity {
         return new StaticBody(shape, material, id, tag);
     }
     
+    /**
+     * Create a static body of unit size centered at the origin, meant to be scaled like the editor platforms
+     * @param platformShape Shape of the body
+     * @param material Material for the mesh
+     * @param id Optional identifier
+     * @param tag Classification tag
+     */
+    static createShaped(
+        platformShape: PlatformShape,
+        material: THREE.Material,
+        id?: string,
+        tag: string = "platform"
+    ): StaticBody {
+        const min = new THREE.Vector3(-0.5, -0.5, -0.5);
+        const max = new THREE.Vector3(0.5, 0.5, 0.5);
+        let shape: ConvexShape;
+        if (platformShape === PlatformShape.Wedge) {
+            shape = ConvexShape.createWedge(min, max);
+        } else if (platformShape === PlatformShape.Cylinder) {
+            shape = ConvexShape.createCylinder(0.5, 1);
+        } else {
+            shape = ConvexShape.createBox(min, max);
+        }
+        const body = new StaticBody(shape, material, id, tag);
+        body.platformShape = platformShape;
+        return body;
+    }
+    
     /**
      * Create a beam (elongated box) static body
      * @param start Start point of the beam
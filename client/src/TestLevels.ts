@@ -7,6 +7,7 @@ import { Saw } from './Saw';
 import { Game } from './Game';
 import { LevelBuilder } from './LevelBuilder';
 import { Sign } from './Sign';
+import { TimedLevels } from './TimedLevels';
 
 export class TestLevels {
     // Parameter for main platform length that can be adjusted as needed
@@ -233,23 +234,16 @@ export class TestLevels {
         setTimeout(() => {
             console.log("Updating all highscore signs...");
             if (level.signs && level.signs.length > 0) {
-                level.signs.forEach(sign => {
-                    const levelId = sign.getLevelId();
-                    
-                    // If network is available, populate with current highscores
-                    if (game.network) {
-                        const highscores = game.network.getHighscores(levelId);
-                        
-                        if (highscores && highscores.length > 0) {
-                            sign.setHighscores(highscores);
-                        } else {
-                            game.network.requestAllHighscores();
-                            sign.setHighscores(game.network.getHighscores(levelId));
-                        }
-                    } else {
-                        sign.setHighscores([]);
+                // If network is available, populate with current highscores
+                if (game.network) {
+                    // Fill in the daily, weekly and all-time boards we already have, and ask again if some are missing
+                    game.network.updateSignsWithHighscores();
+                    if (level.signs.some(sign => game.network!.getHighscores(sign.getLevelId()).length === 0)) {
+                        game.network.requestAllHighscores();
                     }
-                });
+                } else {
+                    level.signs.forEach(sign => sign.setHighscores([]));
+                }
             }
         }, 1000); // 1 second delay
     }
@@ -730,9 +724,9 @@ export class TestLevels {
         
         // Floating obstacle blocks
         for (let i = 0; i < 8; i++) {
-            const x = Math.random() * 20 - 10;
-            const z = Math.random() * 15 - 55;
-            const size = Math.random() * 2 + 1;
+            const x = level.random.next() * 20 - 10;
+            const z = level.random.next() * 15 - 55;
+            const size = level.random.next() * 2 + 1;
             
             level.addStaticBody(StaticBody.createBox(
                 new THREE.Vector3(x - size/2, towerHeight + 3, z - size/2),
@@ -901,9 +895,11 @@ export class TestLevels {
      * Creates a simple test level with two platforms and a rope for swinging
      * @param level The Level instance to add level elements to
      */
-    public static createSkydivingChallenge(level: Level, game: Game): void {
+    public static createSkydivingChallenge(level: Level, game: Game | null): void {
 
         level.playerStartPosition = new THREE.Vector3(0, 105, 0);
+        // Times in seconds to beat for 1, 2 and 3 stars
+        level.parTimes = [60, 40, 30];
         // Starting platform - high up
         LevelBuilder.createHorizontalPlatform(
             level,
@@ -1067,6 +1063,19 @@ export class TestLevels {
             );
         }
         
+        // Show the best star count of timed levels, updated when the server sends it
+        if (level.levelIdx === 0 && TimedLevels.isTimedLevel(targetLevelId)) {
+            const starLabel = level.levelRenderer?.addSimpleText(
+                TimedLevels.formatStars(game.network?.getBestStars(targetLevelId) ?? 0),
+                new THREE.Vector3(position.x, position.y + 4, position.z),
+                "#ffdd00",
+                "#000000"
+            );
+            if (starLabel) {
+                level.starLabels.set(targetLevelId, starLabel);
+            }
+        }
+        
         // Create highscore sign for this level if we're in the overworld and showHighscore is true
         if (level.levelIdx === 0 && targetLevelId > 0 && showHighscore) {
             console.log(`Creating highscore sign for level ${targetLevelId}`);
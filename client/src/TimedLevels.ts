@@ -0,0 +1,66 @@
+import { Level } from './Level';
+import { Game } from './Game';
+import { TestLevels } from './TestLevels';
+import { drop_level, first_level, loadJSONLevel, long_level, simple_finish, tutorial_level } from './JSONLevels';
+
+/**
+ * Levels whose completion time is reported to the highscores.
+ * Loading them only needs a Level, so the server can rebuild them to verify replays.
+ */
+export class TimedLevels {
+    // Indices of all timed levels
+    public static readonly levelIndices: number[] = [2, 4, 5, 6, 7, 8];
+
+    // Stars for beating all par times of a level
+    public static readonly MAX_STARS = 3;
+
+    /**
+     * Check if a level index is a timed level
+     * @param levelIdx The level index to check
+     * @returns True if the level reports completion times
+     */
+    public static isTimedLevel(levelIdx: number): boolean {
+        return TimedLevels.levelIndices.includes(levelIdx);
+    }
+
+    /**
+     * Show a star count as filled and empty stars
+     * @param stars Number of stars earned
+     * @returns Text like ⭐⭐☆
+     */
+    public static formatStars(stars: number): string {
+        return '⭐'.repeat(stars) + '☆'.repeat(Math.max(0, TimedLevels.MAX_STARS - stars));
+    }
+
+    /**
+     * Load the content of a timed level
+     * @param level The Level instance to populate
+     * @param game The Game instance, or null when running headless
+     * @param levelIdx The level index to load
+     * @returns True if the level was loaded, false if it is not a timed level
+     */
+    public static loadLevel(level: Level, game: Game | null, levelIdx: number): boolean {
+        switch (levelIdx) {
+            case 2:
+                loadJSONLevel(level, game, tutorial_level, true);
+                return true;
+            case 4:
+                loadJSONLevel(level, game, simple_finish, true);
+                return true;
+            case 5:
+                loadJSONLevel(level, game, drop_level, true);
+                return true;
+            case 6:
+                loadJSONLevel(level, game, first_level, true);
+                return true;
+            case 7:
+                loadJSONLevel(level, game, long_level, true);
+                return true;
+            case 8:
+                TestLevels.createSkydivingChallenge(level, game);
+                return true;
+            default:
+                return false;
+        }
+    }
+}
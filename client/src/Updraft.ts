@@ -57,8 +57,8 @@ export class Updraft extends Entity {
                 
                 // Add subtle turbulence - stronger at bottom
                 const turbulenceScale = forceScale * 0.15;
-                const turbulenceX = (Math.random() - 0.5) * this.strength * turbulenceScale;
-                const turbulenceZ = (Math.random() - 0.5) * this.strength * turbulenceScale;
+                const turbulenceX = (player.random.next() - 0.5) * this.strength * turbulenceScale;
+                const turbulenceZ = (player.random.next() - 0.5) * this.strength * turbulenceScale;
                 particle.applyImpulse(new THREE.Vector3(turbulenceX, 0, turbulenceZ));
             }
         });
@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AccountProfile } from '../shared/types';
+
+const MIN_NAME_LENGTH = 3;
+const MAX_NAME_LENGTH = 20;
+
+export interface AccountLogin {
+  account: AccountProfile;
+  token: string;
+}
+
+/**
+ * Local player accounts, shared by all rooms.
+ * Players get a signed token on their first join and present it on later joins,
+ * so highscores belong to an account instead of a free-text username.
+ */
+export class Accounts {
+  private static accountsPath = path.resolve(__dirname, '../data/accounts.json');
+  private static secretPath = path.resolve(__dirname, '../data/account_secret');
+  private static accounts: { [accountId: string]: AccountProfile } | null = null;
+  private static secret: string = "";
+
+  /**
+   * Log in with a token, or create a new account if the token is missing or invalid
+   * @param token Token from an earlier login
+   * @param requestedName Display name to use for a new account
+   * @param newSession False when the player only switches rooms, so the join is not counted again
+   */
+  static login(token: any, requestedName: any, newSession: boolean): AccountLogin {
+    this.load();
+
+    const accountId = this.verifyToken(token);
+    let account = accountId ? this.accounts![accountId] : undefined;
+    if (account) {
+      console.log(`🔑 Account ${account.displayName} (${account.id}) logged in`);
+    } else {
+      const id = crypto.randomUUID();
+      const name = this.cleanName(requestedName);
+      account = {
+        id,
+        displayName: this.uniqueName(name.length >= MIN_NAME_LENGTH ? name : "Player", id),
+        color: "#77dd77",
+        stats: { joins: 0, levelsCompleted: 0, totalTimeMs: 0 },
+        createdAt: Date.now()
+      };
+      this.accounts![id] = account;
+      console.log(`🆕 Created account ${account.displayName} (${account.id})`);
+    }
+
+    if (newSession) {
+      account.stats.joins++;
+    }
+    this.save();
+    return { account, token: this.signToken(account.id) };
+  }
+
+  /**
+   * Get an account by id
+   */
+  static get(accountId: string): AccountProfile | undefined {
+    this.load();
+    return this.accounts![accountId];
+  }
+
+  /**
+   * Change the display name of an account
+   * @returns Empty string on success, otherwise the reason the name was refused
+   */
+  static rename(accountId: string, displayName: any): string {
+    const account = this.get(accountId);
+    if (!account) return "Unknown account";
+
+    const name = this.cleanName(displayName);
+    if (name.length < MIN_NAME_LENGTH) {
+      return `Names need at least ${MIN_NAME_LENGTH} characters`;
+    }
+    if (this.uniqueName(name, accountId) !== name) {
+      return `The name ${name} is already taken`;
+    }
+
+    console.log(`✏️ Account ${account.id} renamed from ${account.displayName} to ${name}`);
+    account.displayName = name;
+    this.save();
+    return "";
+  }
+
+  /**
+   * Change the player color of an account
+   * @returns Empty string on success, otherwise the reason the color was refused
+   */
+  static setColor(accountId: string, color: any): string {
+    const account = this.get(accountId);
+    if (!account) return "Unknown account";
+
+    if (typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color)) {
+      return "Colors need to be written as #rrggbb";
+    }
+
+    console.log(`🎨 Account ${account.displayName} (${account.id}) changed color to ${color}`);
+    account.color = color.toLowerCase();
+    this.save();
+    return "";
+  }
+
+  /**
+   * Add a verified level completion to the account stats
+   */
+  static recordCompletion(accountId: string, timeMs: number): void {
+    const account = this.get(accountId);
+    if (!account) return;
+
+    account.stats.levelsCompleted++;
+    account.stats.totalTimeMs += timeMs;
+    this.save();
+  }
+
+  private static cleanName(name: any): string {
+    if (typeof name !== 'string') return "";
+    return name.replace(/[^\w\- ]/g, "").trim().slice(0, MAX_NAME_LENGTH);
+  }
+
+  // Add a number to the name until no other account uses it
+  private static uniqueName(name: string, accountId: string): string {
+    const taken = new Set(
+      Object.values(this.accounts!)
+        .filter(account => account.id !== accountId)
+        .map(account => account.displayName.toLowerCase())
+    );
+
+    let candidate = name;
+    for (let i = 2; taken.has(candidate.toLowerCase()); i++) {
+      candidate = `${name.slice(0, MAX_NAME_LENGTH - String(i).length)}${i}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * Create the token that logs in to an account
+   */
+  static signToken(accountId: string): string {
+    const signature = crypto.createHmac('sha256', this.secret).update(accountId).digest('base64url');
+    return `${accountId}.${signature}`;
+  }
+
+  // Returns the account id of a correctly signed token, or null
+  private static verifyToken(token: any): string | null {
+    if (typeof token !== 'string') return null;
+
+    const [accountId, signature] = token.split('.');
+    if (!accountId || !signature) return null;
+
+    const expected = Buffer.from(this.signToken(accountId));
+    const actual = Buffer.from(token);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      console.log(`⚠️ Rejected account token with an invalid signature`);
+      return null;
+    }
+    return accountId;
+  }
+
+  // Load the accounts and signing secret on first use
+  private static load(): void {
+    if (this.accounts) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.accountsPath), { recursive: true });
+
+      // The secret comes from the environment in production, otherwise it is generated once and kept on disk
+      if (process.env.ACCOUNT_SECRET) {
+        this.secret = process.env.ACCOUNT_SECRET;
+      } else if (fs.existsSync(this.secretPath)) {
+        this.secret = fs.readFileSync(this.secretPath, 'utf8').trim();
+      } else {
+        this.secret = crypto.randomBytes(32).toString('hex');
+        fs.writeFileSync(this.secretPath, this.secret, 'utf8');
+        console.log(`Generated account secret at ${this.secretPath}`);
+      }
+    } catch (error) {
+      console.error(`❌ Error loading account secret from ${this.secretPath}:`, error);
+      if (!this.secret) {
+        this.secret = crypto.randomBytes(32).toString('hex');
+      }
+    }
+
+    try {
+      this.accounts = fs.existsSync(this.accountsPath) ? JSON.parse(fs.readFileSync(this.accountsPath, 'utf8')) : {};
+      console.log(`✅ Loaded ${Object.keys(this.accounts!).length} accounts from ${this.accountsPath}`);
+    } catch (error) {
+      // Saving over an unreadable file would lose every account in it, so it is moved aside first.
+      // If even that fails the error is thrown and no account can log in until the file is fixed.
+      const unreadablePath = `${this.accountsPath}.unreadable-${Date.now()}`;
+      console.error(`❌ Error loading accounts from ${this.accountsPath}, moving it to ${unreadablePath}:`, error);
+      fs.renameSync(this.accountsPath, unreadablePath);
+      this.accounts = {};
+    }
+  }
+
+  private static save(): void {
+    try {
+      // Write to a temp file first and rename, like the highscores, to avoid nodemon restarts and partial files
+      const tempFile = `${this.accountsPath}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(this.accounts, null, 2), 'utf8');
+      fs.renameSync(tempFile, this.accountsPath);
+    } catch (error) {
+      console.error(`❌ Error saving accounts to ${this.accountsPath}:`, error);
+    }
+  }
+}
@@ -1,4 +1,7 @@
-import { Room } from 'colyseus';
+import { Client, Room } from 'colyseus';
+
+// How many messages are kept for an account that is between rooms
+const MAX_PENDING_MESSAGES = 10;
 
 /**
  * Simple global dispatcher for communication between rooms
@@ -7,6 +10,9 @@ export class GlobalDispatcher {
   // Store all active rooms
   private static rooms: Set<Room> = new Set();
 
+  // Messages for accounts that were in no room when they were sent
+  private static pendingMessages: Map<string, { type: string, data: any }[]> = new Map();
+
   /**
    * Register a room with the dispatcher
    */
@@ -48,4 +54,39 @@ export class GlobalDispatcher {
       }
     });
   }
-} 
\ No newline at end of file
+
+  /**
+   * Send a message to the clients of an account in whichever room they are now.
+   * Players switch rooms right after finishing a level, so messages for an account
+   * without a room are kept until it asks for them with sendPending
+   */
+  static sendToAccount(accountId: string, messageType: string, data: any): void {
+    let sent = false;
+    this.rooms.forEach(room => {
+      room.clients.forEach(client => {
+        if (client.userData?.accountId === accountId) {
+          client.send(messageType, data);
+          sent = true;
+        }
+      });
+    });
+
+    if (!sent) {
+      const pending = this.pendingMessages.get(accountId) ?? [];
+      pending.push({ type: messageType, data });
+      this.pendingMessages.set(accountId, pending.slice(-MAX_PENDING_MESSAGES));
+    }
+  }
+
+  /**
+   * Send a client the messages its account missed while it was in no room
+   */
+  static sendPending(client: Client): void {
+    const accountId = client.userData?.accountId;
+    const pending = this.pendingMessages.get(accountId);
+    if (!pending) return;
+
+    this.pendingMessages.delete(accountId);
+    pending.forEach(message => client.send(message.type, message.data));
+  }
+}
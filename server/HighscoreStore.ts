@@ -0,0 +1,109 @@
+import { HighscorePeriod, LevelAttempt } from '../shared/types';
+
+// Number of entries on each leaderboard
+export const MAX_HIGHSCORES = 10;
+
+// Number of attempts kept in the history of a player on a level
+export const MAX_ATTEMPTS = 100;
+
+// Interface for highscore entry
+export interface HighscoreEntry {
+  username: string;
+  timeMs: number;
+  stars: number;
+  timestamp: number;
+  accountId?: string; // Account that set the time, the username follows its display name
+  frames?: number[][]; // Verified inputs of the run, served as a ghost
+}
+
+// Interface for highscores by level
+export interface Highscores {
+  [levelId: string]: HighscoreEntry[];
+}
+
+// Position of an entry on the board of every period, 0 where the player already has a faster run
+export type HighscorePositions = Record<HighscorePeriod, number>;
+
+/**
+ * Get the key that identifies the player of an entry, boards hold one entry per player
+ */
+export function playerKey(entry: HighscoreEntry): string {
+  return entry.accountId ?? entry.username.toLowerCase();
+}
+
+/**
+ * Get the time a leaderboard period started, in UTC
+ * @param period The leaderboard period
+ * @param time A time within the period, in ms since the epoch
+ * @returns Start of the period, 0 for the all-time board
+ */
+export function periodStart(period: HighscorePeriod, time: number): number {
+  if (period === HighscorePeriod.AllTime) return 0;
+
+  const date = new Date(time);
+  date.setUTCHours(0, 0, 0, 0);
+  if (period === HighscorePeriod.Weekly) {
+    // Weeks start on Monday
+    date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+  }
+  return date.getTime();
+}
+
+/**
+ * Check if a value received from a client or query string names a period
+ */
+export function isHighscorePeriod(period: any): period is HighscorePeriod {
+  return Object.values(HighscorePeriod).includes(period);
+}
+
+/**
+ * Leave out the recorded inputs, they are only sent when requesting a ghost run
+ */
+export function withoutFrames(entries: HighscoreEntry[]): HighscoreEntry[] {
+  return entries.map(({ frames, ...entry }) => entry);
+}
+
+/**
+ * Storage for the highscores, one instance is shared by all rooms
+ */
+export interface HighscoreStore {
+  /**
+   * Add a completion to the boards of a level and to the history of its account.
+   * Entries of the current week are kept for the daily and weekly boards, older ones only while on the all-time board.
+   * @returns The 1-based position of the entry on the board of every period
+   */
+  add(levelId: number, entry: HighscoreEntry): HighscorePositions;
+
+  /**
+   * Get the entries on the board of a level, the best run of each player, fastest first.
+   * Boards end after MAX_HIGHSCORES entries, however large the limit.
+   * @param offset Number of entries to skip, for paging
+   * @param period Only include entries set in the current period
+   */
+  getLevel(levelId: number, limit?: number, offset?: number, period?: HighscorePeriod): HighscoreEntry[];
+
+  /**
+   * Get the number of entries on the board of a level in the current period
+   */
+  countLevel(levelId: number, period?: HighscorePeriod): number;
+
+  /**
+   * Get the boards of every level that has any entries in the current period
+   */
+  getAll(limit?: number, period?: HighscorePeriod): Highscores;
+
+  /**
+   * Get the best entry of a player on every level, matched by account id or display name
+   */
+  getPlayer(player: string): Highscores;
+
+  /**
+   * Get the attempts of an account on a level, oldest first
+   */
+  getHistory(accountId: string, levelId: number): LevelAttempt[];
+
+  /**
+   * Show a new display name on all entries of an account
+   */
+  renameAccount(accountId: string, username: string): void;
+}
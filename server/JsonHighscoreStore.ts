@@ -0,0 +1,250 @@
+import fs from 'fs';
+import path from 'path';
+import { HighscorePeriod, LevelAttempt } from '../shared/types';
+import { HighscoreEntry, HighscorePositions, Highscores, HighscoreStore, MAX_ATTEMPTS, MAX_HIGHSCORES, periodStart, playerKey } from './HighscoreStore';
+
+/**
+ * Keeps the highscores in memory and writes the whole JSON file on every change.
+ * Only safe while a single server process uses the file.
+ */
+export class JsonHighscoreStore implements HighscoreStore {
+  private highscoresPath: string;
+  private highscores: Highscores = {};
+  // Attempt history by account and level, kept in its own file
+  private attemptsPath: string;
+  private attempts: { [accountId: string]: { [levelId: string]: LevelAttempt[] } } = {};
+
+  /**
+   * Load the highscores and attempt history
+   * @param highscoresPath Path of the highscores file
+   * @param attemptsPath Path of the attempt history file
+   */
+  constructor(highscoresPath: string, attemptsPath: string) {
+    this.highscoresPath = highscoresPath;
+    this.attemptsPath = attemptsPath;
+    this.ensureDataDirectoryExists();
+    this.load();
+    this.loadAttempts();
+  }
+
+  add(levelId: number, entry: HighscoreEntry): HighscorePositions {
+    const levelIdStr = levelId.toString();
+
+    // Sort by time (fastest first), earlier entries stay ahead on equal times
+    const levelScores = [...(this.highscores[levelIdStr] || []), entry];
+    levelScores.sort((a, b) => a.timeMs - b.timeMs);
+
+    const positions = {} as HighscorePositions;
+    const boards = new Set<HighscoreEntry>();
+    Object.values(HighscorePeriod).forEach(period => {
+      const start = periodStart(period, entry.timestamp);
+      const board = this.bestPerPlayer(levelScores.filter(score => score.timestamp >= start));
+      positions[period] = board.indexOf(entry) + 1;
+      board.slice(0, MAX_HIGHSCORES).forEach(score => boards.add(score));
+    });
+
+    // Only runs on a board keep their recorded inputs, the others would only make the file grow
+    levelScores.forEach(score => {
+      if (!boards.has(score)) delete score.frames;
+    });
+
+    // Drop entries that are on no board anymore
+    const weekStart = periodStart(HighscorePeriod.Weekly, entry.timestamp);
+    const allTimeBoard = this.bestPerPlayer(levelScores).slice(0, MAX_HIGHSCORES);
+    this.highscores[levelIdStr] = levelScores.filter(score => score.timestamp >= weekStart || allTimeBoard.includes(score));
+    this.save();
+
+    if (entry.accountId) {
+      const levelAttempts = this.attempts[entry.accountId] ??= {};
+      const history = levelAttempts[levelIdStr] ??= [];
+      history.push({ timeMs: entry.timeMs, stars: entry.stars, timestamp: entry.timestamp });
+      levelAttempts[levelIdStr] = history.slice(-MAX_ATTEMPTS);
+      this.saveAttempts();
+    }
+    return positions;
+  }
+
+  getLevel(levelId: number, limit: number = MAX_HIGHSCORES, offset: number = 0, period: HighscorePeriod = HighscorePeriod.AllTime): HighscoreEntry[] {
+    return this.inPeriod(this.highscores[levelId.toString()] || [], period).slice(offset, offset + limit);
+  }
+
+  countLevel(levelId: number, period: HighscorePeriod = HighscorePeriod.AllTime): number {
+    return this.inPeriod(this.highscores[levelId.toString()] || [], period).length;
+  }
+
+  getAll(limit: number = MAX_HIGHSCORES, period: HighscorePeriod = HighscorePeriod.AllTime): Highscores {
+    const allHighscores: Highscores = {};
+    Object.keys(this.highscores).forEach(levelId => {
+      const scores = this.inPeriod(this.highscores[levelId], period);
+      if (scores.length > 0) {
+        allHighscores[levelId] = scores.slice(0, limit);
+      }
+    });
+    return allHighscores;
+  }
+
+  getPlayer(player: string): Highscores {
+    const name = player.toLowerCase();
+    const playerHighscores: Highscores = {};
+    Object.keys(this.highscores).forEach(levelId => {
+      // Entries are sorted fastest first, so the first one is the best run of the player
+      const best = this.highscores[levelId].find(entry =>
+        entry.accountId === player || entry.username.toLowerCase() === name
+      );
+      if (best) {
+        playerHighscores[levelId] = [best];
+      }
+    });
+    return playerHighscores;
+  }
+
+  getHistory(accountId: string, levelId: number): LevelAttempt[] {
+    return this.attempts[accountId]?.[levelId.toString()] ?? [];
+  }
+
+  renameAccount(accountId: string, username: string): void {
+    let changed = false;
+    Object.values(this.highscores).forEach(scores => {
+      scores.forEach(entry => {
+        if (entry.accountId === accountId && entry.username !== username) {
+          entry.username = username;
+          changed = true;
+        }
+      });
+    });
+
+    if (changed) {
+      this.save();
+    }
+  }
+
+  // The board of the current period, made of the best runs set since it started
+  private inPeriod(scores: HighscoreEntry[], period: HighscorePeriod): HighscoreEntry[] {
+    const start = periodStart(period, Date.now());
+    return this.bestPerPlayer(scores.filter(score => score.timestamp >= start)).slice(0, MAX_HIGHSCORES);
+  }
+
+  // Keep the first entry of every player in a list sorted fastest first
+  private bestPerPlayer(scores: HighscoreEntry[]): HighscoreEntry[] {
+    const players = new Set<string>();
+    return scores.filter(score => {
+      const key = playerKey(score);
+      if (players.has(key)) return false;
+      players.add(key);
+      return true;
+    });
+  }
+
+  // Ensure the data directory exists
+  private ensureDataDirectoryExists(): void {
+    const dataDir = path.dirname(this.highscoresPath);
+
+    try {
+      if (!fs.existsSync(dataDir)) {
+        console.log(`Creating data directory: ${dataDir}`);
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+    } catch (error) {
+      console.error(`Failed to create data directory: ${dataDir}`, error);
+    }
+  }
+
+  // Load highscores from disk with improved logging
+  private load(): void {
+    console.log(`Loading highscores from: ${this.highscoresPath}`);
+
+    try {
+      if (fs.existsSync(this.highscoresPath)) {
+        const data = fs.readFileSync(this.highscoresPath, 'utf8');
+        this.highscores = JSON.parse(data);
+
+        // Count total highscores
+        let totalEntries = 0;
+        let totalLevels = 0;
+
+        Object.keys(this.highscores).forEach(levelId => {
+          if (this.highscores[levelId] && this.highscores[levelId].length > 0) {
+            totalLevels++;
+            totalEntries += this.highscores[levelId].length;
+          }
+        });
+
+        console.log(`✅ Highscores loaded from disk: ${totalEntries} entries across ${totalLevels} levels`);
+
+        // Log a summary of the highscores
+        Object.keys(this.highscores).sort((a, b) => parseInt(a) - parseInt(b)).forEach(levelId => {
+          const scores = this.highscores[levelId];
+          if (scores && scores.length > 0) {
+            console.log(`- Level ${levelId}: ${scores.length} entries, top score: ${scores[0].username} (${scores[0].timeMs}ms)`);
+          }
+        });
+      } else {
+        this.highscores = {};
+        console.log(`⚠️ No highscores file found at ${this.highscoresPath}, starting with empty highscores`);
+      }
+    } catch (error) {
+      console.error(`❌ Error loading highscores from ${this.highscoresPath}:`, error);
+      this.highscores = {};
+    }
+  }
+
+  private loadAttempts(): void {
+    try {
+      if (fs.existsSync(this.attemptsPath)) {
+        this.attempts = JSON.parse(fs.readFileSync(this.attemptsPath, 'utf8'));
+        console.log(`✅ Attempt history loaded for ${Object.keys(this.attempts).length} accounts`);
+      }
+    } catch (error) {
+      console.error(`❌ Error loading attempt history from ${this.attemptsPath}:`, error);
+      this.attempts = {};
+    }
+  }
+
+  private saveAttempts(): void {
+    try {
+      // Same temp file and rename as the highscores
+      const tempFile = `${this.attemptsPath}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(this.attempts), 'utf8');
+      fs.renameSync(tempFile, this.attemptsPath);
+    } catch (error) {
+      console.error(`❌ Error saving attempt history to ${this.attemptsPath}:`, error);
+    }
+  }
+
+  // Save highscores to disk with improved error handling
+  private save(): void {
+    console.log(`Saving highscores to: ${this.highscoresPath}`);
+
+    try {
+      // Ensure directory exists
+      this.ensureDataDirectoryExists();
+
+      // Create JSON string
+      const data = JSON.stringify(this.highscores, null, 2);
+
+      // Save to a temp file first to avoid nodemon restart
+      const tempFile = `${this.highscoresPath}.tmp`;
+
+      // Write to temp file
+      fs.writeFileSync(tempFile, data, 'utf8');
+
+      // Then rename (atomic operation) to avoid nodemon watching the write
+      fs.renameSync(tempFile, this.highscoresPath);
+
+      // Count total highscores for logging
+      let totalEntries = 0;
+      Object.values(this.highscores).forEach(scores => {
+        totalEntries += scores.length;
+      });
+
+      console.log(`✅ Highscores saved to ${this.highscoresPath} (${totalEntries} total entries)`);
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        console.error(`❌ Error saving highscores: ${error.message}`);
+        console.error(`Stack trace: ${error.stack}`);
+      } else {
+        console.error('❌ Error saving highscores: Unknown error type');
+      }
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { Level } from '../client/src/Level';
+import { TimedLevels } from '../client/src/TimedLevels';
+import { InputLog } from '../shared/InputLog';
+
+// Must match the fixed timestep of the client game loop
+const TICKS_PER_SECOND = 60;
+
+// Longest run we are willing to re-simulate (10 minutes)
+const MAX_REPLAY_TICKS = TICKS_PER_SECOND * 60 * 10;
+
+// Runs slower than this many times the slowest par time of a level are not re-simulated
+const PAR_TIME_LIMIT_FACTOR = 4;
+
+// Runs waiting for the worker, more are turned away until it catches up
+const MAX_PENDING_REPLAYS = 20;
+
+export interface ReplayResult {
+  valid: boolean;
+  timeMs: number;
+  stars: number;  // Stars earned by the verified time against the par times of the level
+  reason: string;
+}
+
+// Message sent to the worker thread
+export interface ReplayRequest {
+  id: number;
+  levelId: number;
+  frames: any;
+  claimedTimeMs: number;
+}
+
+/**
+ * Re-simulates uploaded runs headlessly to verify level completion times
+ */
+export class ReplayVerifier {
+  private static worker: Worker | null = null;
+  private static pending: Map<number, (result: ReplayResult) => void> = new Map();
+  private static nextRequestId = 0;
+
+  /**
+   * Verify a run on the worker thread, so re-simulating it doesn't block the rooms and REST routes
+   */
+  static verifyInWorker(levelId: number, frames: any, claimedTimeMs: number): Promise<ReplayResult> {
+    if (this.pending.size >= MAX_PENDING_REPLAYS) {
+      return Promise.resolve({ valid: false, timeMs: 0, stars: 0, reason: "too many runs waiting for verification" });
+    }
+
+    const worker = this.getWorker();
+    const id = this.nextRequestId++;
+    return new Promise(resolve => {
+      this.pending.set(id, resolve);
+      const request: ReplayRequest = { id, levelId, frames, claimedTimeMs };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Replay the recorded inputs against the level and check that it finishes at the claimed time
+   */
+  static verify(levelId: number, frames: any, claimedTimeMs: number): ReplayResult {
+    if (!TimedLevels.isTimedLevel(levelId)) {
+      return { valid: false, timeMs: 0, stars: 0, reason: `level ${levelId} is not a timed level` };
+    }
+
+    // A valid run finishes exactly at the claimed tick, so nothing past it needs simulating
+    const claimedTicks = Math.round(claimedTimeMs * TICKS_PER_SECOND / 1000);
+    if (!Number.isFinite(claimedTicks) || claimedTicks < 1 || claimedTicks > MAX_REPLAY_TICKS) {
+      return { valid: false, timeMs: 0, stars: 0, reason: `claimed time ${claimedTimeMs}ms is out of range` };
+    }
+
+    const inputLog = InputLog.fromFrames(frames, claimedTicks);
+    if (!inputLog || inputLog.tickCount === 0) {
+      return { valid: false, timeMs: 0, stars: 0, reason: "missing, malformed or too long input log" };
+    }
+
+    // Build the level the same way the client does in Game.doLevelSwitch
+    const level = new Level(levelId);
+    level.addPlayer("replay", true);
+    TimedLevels.loadLevel(level, null, levelId);
+    level.localPlayer?.setPosition(level.playerStartPosition);
+
+    if (level.parTimes.length > 0) {
+      const limitTicks = Math.ceil(Math.max(...level.parTimes) * PAR_TIME_LIMIT_FACTOR * TICKS_PER_SECOND);
+      if (claimedTicks > limitTicks) {
+        return { valid: false, timeMs: 0, stars: 0, reason: `claimed ${claimedTicks} ticks, more than the ${limitTicks} allowed on this level` };
+      }
+    }
+
+    const inputs = inputLog.decode();
+    for (let tick = 0; tick < inputs.length; tick++) {
+      level.fixedUpdate(inputs[tick]);
+
+      if (level.isFinished) {
+        const ticks = tick + 1;
+        const timeMs = ticks * (1000 / TICKS_PER_SECOND);
+
+        if (claimedTicks !== ticks) {
+          return { valid: false, timeMs, stars: 0, reason: `replay finished after ${ticks} ticks but ${claimedTicks} were claimed` };
+        }
+        return { valid: true, timeMs, stars: level.starsForTime(timeMs), reason: "" };
+      }
+
+      // Without a checkpoint a fall removes the player, the run can't finish any more
+      if (!level.localPlayer) {
+        return { valid: false, timeMs: 0, stars: 0, reason: `player died after ${tick + 1} ticks` };
+      }
+    }
+
+    return { valid: false, timeMs: 0, stars: 0, reason: `replay did not finish the level within ${inputs.length} ticks` };
+  }
+
+  // Start the worker on first use, and again after it crashed
+  private static getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    // Under ts-node the worker is a .ts file too and needs ts-node to load it
+    const extension = path.extname(__filename);
+    const worker = new Worker(path.join(__dirname, `ReplayWorker${extension}`), {
+      execArgv: extension === '.ts' ? ['--require', 'ts-node/register/transpile-only'] : undefined
+    });
+
+    worker.on('message', (message: { id: number, result: ReplayResult }) => {
+      this.pending.get(message.id)?.(message.result);
+      this.pending.delete(message.id);
+    });
+    const fail = (reason: string) => {
+      console.error(`Replay worker stopped: ${reason}`);
+      this.pending.forEach(resolve => resolve({ valid: false, timeMs: 0, stars: 0, reason: "replay verification failed" }));
+      this.pending.clear();
+      if (this.worker === worker) this.worker = null;
+    };
+    worker.on('error', (error: Error) => fail(error.message));
+    worker.on('exit', code => fail(`exit code ${code}`));
+
+    this.worker = worker;
+    return worker;
+  }
+}
@@ -0,0 +1,8 @@
+import { parentPort } from 'worker_threads';
+import { ReplayRequest, ReplayVerifier } from './ReplayVerifier';
+
+// Worker thread that re-simulates runs one at a time, started by ReplayVerifier.verifyInWorker
+parentPort?.on('message', (request: ReplayRequest) => {
+  const result = ReplayVerifier.verify(request.levelId, request.frames, request.claimedTimeMs);
+  parentPort!.postMessage({ id: request.id, result });
+});
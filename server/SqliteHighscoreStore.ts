@@ -0,0 +1,266 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { HighscorePeriod, LevelAttempt } from '../shared/types';
+import { HighscoreEntry, HighscorePositions, Highscores, HighscoreStore, MAX_ATTEMPTS, MAX_HIGHSCORES, periodStart, playerKey } from './HighscoreStore';
+
+// Bumped when the tables change, stored in the database as PRAGMA user_version
+const SCHEMA_VERSION = 2;
+
+// Same key as playerKey, entries without an account belong to their username
+const PLAYER_KEY = 'COALESCE(account_id, LOWER(username))';
+
+// Best run of every player on every level since the timestamp given as parameter
+const BEST_RUNS = `
+  SELECT * FROM (
+    SELECT *, ROW_NUMBER() OVER (PARTITION BY level_id, ${PLAYER_KEY} ORDER BY time_ms, id) AS player_rank
+    FROM highscores WHERE timestamp >= ?
+  ) WHERE player_rank = 1
+`;
+
+interface HighscoreRow {
+  level_id: number;
+  username: string;
+  time_ms: number;
+  stars: number;
+  timestamp: number;
+  account_id: string | null;
+  frames: string | null;
+}
+
+/**
+ * Keeps the highscores in an embedded SQLite database.
+ * Every change runs in a transaction, so completions from different rooms or server
+ * processes can't overwrite each other.
+ */
+export class SqliteHighscoreStore implements HighscoreStore {
+  private db: Database.Database;
+
+  /**
+   * Open the database, creating it on first run
+   * @param databasePath Path of the database file
+   * @param jsonPath Highscores file of the JSON store, imported when the database is created
+   * @param attemptsJsonPath Attempt history file of the JSON store, imported when the attempts table is created
+   */
+  constructor(databasePath: string, jsonPath: string, attemptsJsonPath: string) {
+    fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    this.db = new Database(databasePath);
+    // Lets other processes read while a completion is written
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version < SCHEMA_VERSION) {
+      this.migrate(version, jsonPath, attemptsJsonPath);
+    }
+
+    const count = this.db.prepare('SELECT COUNT(*) AS count FROM highscores').get() as { count: number };
+    console.log(`✅ Highscores database opened at ${databasePath}: ${count.count} entries`);
+  }
+
+  add(levelId: number, entry: HighscoreEntry): HighscorePositions {
+    const insert = this.db.transaction(() => {
+      const positions = {} as HighscorePositions;
+      Object.values(HighscorePeriod).forEach(period => {
+        const start = periodStart(period, entry.timestamp);
+        const best = this.db.prepare(`SELECT MIN(time_ms) AS timeMs FROM highscores WHERE level_id = ? AND ${PLAYER_KEY} = ? AND timestamp >= ?`)
+          .get(levelId, playerKey(entry), start) as { timeMs: number | null };
+        if (best.timeMs !== null && best.timeMs <= entry.timeMs) {
+          positions[period] = 0;
+          return;
+        }
+
+        // Equal times stay behind the entries that were there first
+        const ahead = this.db.prepare(`SELECT COUNT(*) AS count FROM (${BEST_RUNS}) WHERE level_id = ? AND time_ms <= ? AND ${PLAYER_KEY} != ?`)
+          .get(start, levelId, entry.timeMs, playerKey(entry)) as { count: number };
+        positions[period] = ahead.count + 1;
+      });
+
+      // Only runs on a board keep their recorded inputs, the others would only make the database grow
+      const onBoard = Object.values(HighscorePeriod).some(period => positions[period] > 0 && positions[period] <= MAX_HIGHSCORES);
+      this.insertEntry(levelId, onBoard ? entry : { ...entry, frames: undefined });
+      const boards = Object.values(HighscorePeriod)
+        .map(() => `SELECT id FROM (SELECT id FROM (${BEST_RUNS}) WHERE level_id = ? ORDER BY time_ms, id LIMIT ?)`)
+        .join(' UNION ');
+      const boardParameters = Object.values(HighscorePeriod)
+        .map(period => [periodStart(period, entry.timestamp), levelId, MAX_HIGHSCORES]);
+      this.db.prepare(`UPDATE highscores SET frames = NULL WHERE level_id = ? AND frames IS NOT NULL AND id NOT IN (${boards})`)
+        .run(levelId, ...([] as number[]).concat(...boardParameters));
+
+      // Drop entries that are on no board anymore
+      this.db.prepare(`
+        DELETE FROM highscores WHERE level_id = ? AND timestamp < ? AND id NOT IN (
+          SELECT id FROM (${BEST_RUNS}) WHERE level_id = ? ORDER BY time_ms, id LIMIT ?
+        )
+      `).run(levelId, periodStart(HighscorePeriod.Weekly, entry.timestamp), 0, levelId, MAX_HIGHSCORES);
+
+      if (entry.accountId) {
+        this.insertAttempt(entry.accountId, levelId, entry);
+        this.db.prepare(`
+          DELETE FROM attempts WHERE account_id = ? AND level_id = ? AND id NOT IN (
+            SELECT id FROM attempts WHERE account_id = ? AND level_id = ? ORDER BY id DESC LIMIT ?
+          )
+        `).run(entry.accountId, levelId, entry.accountId, levelId, MAX_ATTEMPTS);
+      }
+      return positions;
+    });
+    // Take the write lock up front so the positions can't change before the insert
+    return insert.immediate();
+  }
+
+  getLevel(levelId: number, limit: number = MAX_HIGHSCORES, offset: number = 0, period: HighscorePeriod = HighscorePeriod.AllTime): HighscoreEntry[] {
+    // Boards end after MAX_HIGHSCORES entries
+    const count = Math.max(0, Math.min(limit, MAX_HIGHSCORES - offset));
+    const rows = this.db.prepare(`SELECT * FROM (${BEST_RUNS}) WHERE level_id = ? ORDER BY time_ms, id LIMIT ? OFFSET ?`)
+      .all(periodStart(period, Date.now()), levelId, count, offset) as HighscoreRow[];
+    return rows.map(row => this.toEntry(row));
+  }
+
+  countLevel(levelId: number, period: HighscorePeriod = HighscorePeriod.AllTime): number {
+    const count = this.db.prepare(`SELECT COUNT(*) AS count FROM (${BEST_RUNS}) WHERE level_id = ?`)
+      .get(periodStart(period, Date.now()), levelId) as { count: number };
+    return Math.min(count.count, MAX_HIGHSCORES);
+  }
+
+  getAll(limit: number = MAX_HIGHSCORES, period: HighscorePeriod = HighscorePeriod.AllTime): Highscores {
+    const rows = this.db.prepare(`
+      SELECT * FROM (
+        SELECT *, ROW_NUMBER() OVER (PARTITION BY level_id ORDER BY time_ms, id) AS position FROM (${BEST_RUNS})
+      ) WHERE position <= ? ORDER BY level_id, position
+    `).all(periodStart(period, Date.now()), Math.min(limit, MAX_HIGHSCORES)) as HighscoreRow[];
+
+    return this.groupByLevel(rows);
+  }
+
+  getPlayer(player: string): Highscores {
+    const rows = this.db.prepare(`
+      SELECT * FROM (
+        SELECT *, ROW_NUMBER() OVER (PARTITION BY level_id ORDER BY time_ms, id) AS player_rank
+        FROM highscores WHERE account_id = ? OR username = ? COLLATE NOCASE
+      ) WHERE player_rank = 1 ORDER BY level_id
+    `).all(player, player) as HighscoreRow[];
+    return this.groupByLevel(rows);
+  }
+
+  getHistory(accountId: string, levelId: number): LevelAttempt[] {
+    return this.db.prepare('SELECT time_ms AS timeMs, stars, timestamp FROM attempts WHERE account_id = ? AND level_id = ? ORDER BY id')
+      .all(accountId, levelId) as LevelAttempt[];
+  }
+
+  renameAccount(accountId: string, username: string): void {
+    this.db.prepare('UPDATE highscores SET username = ? WHERE account_id = ?').run(username, accountId);
+  }
+
+  // Bring the tables up to date, importing the files of the JSON store when their table is created
+  private migrate(version: number, jsonPath: string, attemptsJsonPath: string): void {
+    const migrate = this.db.transaction(() => {
+      if (version < 1) {
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS highscores (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            level_id INTEGER NOT NULL,
+            username TEXT NOT NULL,
+            time_ms REAL NOT NULL,
+            stars INTEGER NOT NULL,
+            timestamp INTEGER NOT NULL,
+            account_id TEXT,
+            frames TEXT
+          );
+          CREATE INDEX IF NOT EXISTS highscores_level_time ON highscores (level_id, time_ms);
+          CREATE INDEX IF NOT EXISTS highscores_account ON highscores (account_id);
+        `);
+
+        if (fs.existsSync(jsonPath)) {
+          const highscores: Highscores = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+          let totalEntries = 0;
+          Object.keys(highscores).forEach(levelId => {
+            // Insert fastest first so equal times keep their order
+            [...highscores[levelId]].sort((a, b) => a.timeMs - b.timeMs).forEach(entry => {
+              this.insertEntry(parseInt(levelId), entry);
+              totalEntries++;
+            });
+          });
+          console.log(`✅ Migrated ${totalEntries} highscores from ${jsonPath}`);
+        }
+      }
+
+      if (version < 2) {
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS attempts (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            account_id TEXT NOT NULL,
+            level_id INTEGER NOT NULL,
+            time_ms REAL NOT NULL,
+            stars INTEGER NOT NULL,
+            timestamp INTEGER NOT NULL
+          );
+          CREATE INDEX IF NOT EXISTS attempts_account_level ON attempts (account_id, level_id);
+        `);
+
+        if (fs.existsSync(attemptsJsonPath)) {
+          const attempts: { [accountId: string]: { [levelId: string]: LevelAttempt[] } } = JSON.parse(fs.readFileSync(attemptsJsonPath, 'utf8'));
+          Object.keys(attempts).forEach(accountId => {
+            Object.keys(attempts[accountId]).forEach(levelId => {
+              attempts[accountId][levelId].forEach(attempt => this.insertAttempt(accountId, parseInt(levelId), attempt));
+            });
+          });
+          console.log(`✅ Migrated the attempt history of ${Object.keys(attempts).length} accounts from ${attemptsJsonPath}`);
+        } else {
+          // Start the history with the runs that are still on the boards
+          this.db.exec(`
+            INSERT INTO attempts (account_id, level_id, time_ms, stars, timestamp)
+            SELECT account_id, level_id, time_ms, stars, timestamp FROM highscores WHERE account_id IS NOT NULL ORDER BY timestamp
+          `);
+        }
+      }
+
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    });
+    migrate.immediate();
+  }
+
+  private insertEntry(levelId: number, entry: HighscoreEntry): void {
+    this.db.prepare(`
+      INSERT INTO highscores (level_id, username, time_ms, stars, timestamp, account_id, frames)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      levelId,
+      entry.username,
+      entry.timeMs,
+      entry.stars,
+      entry.timestamp,
+      entry.accountId ?? null,
+      entry.frames ? JSON.stringify(entry.frames) : null
+    );
+  }
+
+  private insertAttempt(accountId: string, levelId: number, attempt: LevelAttempt): void {
+    this.db.prepare('INSERT INTO attempts (account_id, level_id, time_ms, stars, timestamp) VALUES (?, ?, ?, ?, ?)')
+      .run(accountId, levelId, attempt.timeMs, attempt.stars, attempt.timestamp);
+  }
+
+  // Rows must be ordered by level
+  private groupByLevel(rows: HighscoreRow[]): Highscores {
+    const highscores: Highscores = {};
+    rows.forEach(row => {
+      const levelId = row.level_id.toString();
+      if (!highscores[levelId]) {
+        highscores[levelId] = [];
+      }
+      highscores[levelId].push(this.toEntry(row));
+    });
+    return highscores;
+  }
+
+  private toEntry(row: HighscoreRow): HighscoreEntry {
+    const entry: HighscoreEntry = {
+      username: row.username,
+      timeMs: row.time_ms,
+      stars: row.stars,
+      timestamp: row.timestamp
+    };
+    if (row.account_id !== null) entry.accountId = row.account_id;
+    if (row.frames !== null) entry.frames = JSON.parse(row.frames);
+    return entry;
+  }
+}
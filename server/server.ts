@@ -1,10 +1,20 @@
 import express from 'express';
 import { createServer } from 'http';
 import { Server, Room, Client } from 'colyseus';
-import { Schema, type, MapSchema } from "@colyseus/schema";
-import fs from 'fs';
+import { WebSocketTransport } from '@colyseus/ws-transport';
+import { Schema, type, MapSchema, ArraySchema } from "@colyseus/schema";
 import path from 'path';
 import { GlobalDispatcher } from './GlobalDispatcher';
+import { Accounts } from './Accounts';
+import { ReplayResult, ReplayVerifier } from './ReplayVerifier';
+import { TimedLevels } from '../client/src/TimedLevels';
+import { HighscoreEntry, HighscorePositions, Highscores, HighscoreStore, isHighscorePeriod, MAX_HIGHSCORES, withoutFrames } from './HighscoreStore';
+import { JsonHighscoreStore } from './JsonHighscoreStore';
+import { SqliteHighscoreStore } from './SqliteHighscoreStore';
+import { ReplayData } from '../shared/InputLog';
+import { DEFAULT_SEED } from '../shared/Random';
+import { Pose } from '../shared/Pose';
+import { HighscorePeriod } from '../shared/types';
 
 // Define room types enum to match client-side definition
 enum RoomType {
@@ -20,6 +30,10 @@ export class PlayerPosition extends Schema {
   @type("number") dirX: number = 0;
   @type("number") dirY: number = 0;
   @type("number") dirZ: number = 1;  // Default forward direction
+  @type(["int16"]) pose = new ArraySchema<number>();  // Quantized offsets of the body particles from the head
+  @type("uint8") movementState: number = 0;
+  @type("int8") ropeIndex: number = -1;  // Index of the held rope in the level, -1 when not holding one
+  @type("float64") time: number = 0;  // Sender clock when the snapshot was taken, in ms
 }
 
 export class Player extends Schema {
@@ -48,41 +62,38 @@ interface LevelCompletion {
   timestamp: number;
 }
 
-// Interface for highscore entry
-interface HighscoreEntry {
-  username: string;
-  timeMs: number;
-  stars: number;
-  timestamp: number;
-}
+// Highscores shared by all rooms, kept in SQLite unless HIGHSCORE_STORE=json selects the old JSON file
+const highscoresJsonPath = path.resolve(__dirname, '../data/highscores.json');
+const attemptsJsonPath = path.resolve(__dirname, '../data/attempts.json');
+const highscores: HighscoreStore = process.env.HIGHSCORE_STORE === 'json'
+  ? new JsonHighscoreStore(highscoresJsonPath, attemptsJsonPath)
+  : new SqliteHighscoreStore(path.resolve(__dirname, '../data/highscores.db'), highscoresJsonPath, attemptsJsonPath);
 
-// Interface for highscores by level
-interface Highscores {
-  [levelId: string]: HighscoreEntry[];
-}
+// Runs of one account are verified one after another, with at most this many waiting their turn
+const MAX_QUEUED_RUNS_PER_ACCOUNT = 3;
+const verificationQueues: Map<string, Promise<ReplayResult>[]> = new Map();
+
+// How each board is named in highscore notifications
+const BOARD_NAMES: Record<HighscorePeriod, string> = {
+  [HighscorePeriod.Daily]: "daily",
+  [HighscorePeriod.Weekly]: "weekly",
+  [HighscorePeriod.AllTime]: "all-time"
+};
 
 // Create our room
 class GameRoom extends Room<GameState> {
   // Store level completions
   private levelCompletions: LevelCompletion[] = [];
-  // Path to highscores file - using an absolute path to ensure consistency
-  private highscoresPath = path.resolve(__dirname, '../data/highscores.json');
-  // In-memory highscores cache
-  private highscores: {[levelId: string]: Array<{username: string, timeMs: number, stars: number, timestamp: number}>} = {};
+  // Level played in this room, gameplay rooms are matched by it so players race others on the same level
+  private levelIdx: number = 0;
 
-  onCreate() {
+  onCreate(options: any) {
     this.state = new GameState();
-    console.log(`Game room created! Room ID: ${this.roomId}`);
+    this.levelIdx = options?.levelIdx ?? 0;
+    console.log(`Game room created for level ${this.levelIdx}! Room ID: ${this.roomId}`);
     
     // Register with the GlobalDispatcher
     GlobalDispatcher.register(this);
-    
-    // Make sure the data directory exists
-    this.ensureDataDirectoryExists();
-    
-    // Load existing highscores
-    this.loadHighscores();
-
     // Handle position updates
     this.onMessage("position", (client, data) => {
       const player = this.state.players.get(client.sessionId);
@@ -94,32 +105,111 @@ class GameRoom extends Room<GameState> {
         player.position.dirY = data.dirY;
         player.position.dirZ = data.dirZ;
         
-        // Update username if included and changed
-        if (data.username && player.username !== data.username) {
-          player.username = data.username;
-          console.log(`Player ${client.sessionId} username updated to: ${data.username}`);
+        // Full body pose, ignored when malformed so the head position still syncs
+        if (Pose.isValid(data.pose)) {
+          if (player.position.pose.length !== data.pose.length) {
+            player.position.pose.clear();
+            player.position.pose.push(...data.pose);
+          } else {
+            data.pose.forEach((value: number, i: number) => {
+              player.position.pose[i] = value;
+            });
+          }
+        }
+        if (Number.isInteger(data.movementState) && data.movementState >= 0 && data.movementState <= 2) {
+          player.position.movementState = data.movementState;
+        }
+        if (Number.isInteger(data.ropeIndex) && data.ropeIndex >= -1 && data.ropeIndex <= 127) {
+          player.position.ropeIndex = data.ropeIndex;
+        }
+        if (typeof data.time === 'number' && Number.isFinite(data.time)) {
+          player.position.time = data.time;
         }
       }
     });
 
-    // Handle username changes
+    // Send the account and its token, requested by the client once its handlers are registered
+    this.onMessage("get_account", (client) => {
+      const accountId = client.userData.accountId;
+      client.send("account", { account: Accounts.get(accountId), token: Accounts.signToken(accountId) });
+      
+      // The client asks once its handlers are registered, so this is also when it can get what it missed while switching rooms
+      GlobalDispatcher.sendPending(client);
+    });
+
+    // Handle username changes, names belong to accounts so taken names are refused
     this.onMessage("username_change", (client, data) => {
       const player = this.state.players.get(client.sessionId);
       if (player && data.username) {
-        player.username = data.username;
-        console.log(`Player ${client.sessionId} changed username to: ${data.username}`);
+        const accountId = client.userData.accountId;
+        const reason = Accounts.rename(accountId, data.username);
+        if (reason) {
+          console.log(`Player ${client.sessionId} could not change username to ${data.username}: ${reason}`);
+          client.send("notification", reason);
+        } else {
+          player.username = Accounts.get(accountId)!.displayName;
+          highscores.renameAccount(accountId, player.username);
+          console.log(`Player ${client.sessionId} changed username to: ${player.username}`);
+        }
+        
+        // Send the profile back either way so the client shows the name it really has
+        client.send("account", { account: Accounts.get(accountId) });
+      }
+    });
+
+    // Handle color changes, the profile goes back either way like with names
+    this.onMessage("color_change", (client, data) => {
+      const accountId = client.userData.accountId;
+      const reason = Accounts.setColor(accountId, data?.color);
+      if (reason) {
+        client.send("notification", reason);
       }
+      client.send("account", { account: Accounts.get(accountId) });
     });
 
     // Handle level completions with GlobalDispatcher
-    this.onMessage("level_complete", (client, data) => {
+    this.onMessage("level_complete", async (client, data) => {
       const player = this.state.players.get(client.sessionId);
       if (player && data.levelId !== undefined && data.timeMs !== undefined) {
         console.log(`Player ${player.username} completed level ${data.levelId} in ${data.timeMs}ms with ${data.stars || 0} stars`);
         
+        // Re-simulating is expensive, so every account gets a limited share of it
+        const accountId: string = client.userData.accountId;
+        const queue = verificationQueues.get(accountId) ?? [];
+        if (queue.length >= MAX_QUEUED_RUNS_PER_ACCOUNT) {
+          console.log(`❌ Ignored completion from ${player.username} on level ${data.levelId}: too many runs waiting`);
+          client.send("notification", "Too many of your runs are waiting to be checked, this one was not added");
+          return;
+        }
+        
+        // Re-simulate the run from the uploaded inputs instead of trusting the client time, once the earlier runs are done
+        const previous = queue.length > 0 ? queue[queue.length - 1] : Promise.resolve();
+        const verification = previous.then(() => ReplayVerifier.verifyInWorker(data.levelId, data.inputs, data.timeMs));
+        queue.push(verification);
+        verificationQueues.set(accountId, queue);
+        const replay = await verification;
+        queue.shift();
+        if (queue.length === 0) {
+          verificationQueues.delete(accountId);
+        }
+        
+        // From here on the result goes to the account, the client has usually left for the overworld while the run was checked
+        if (!replay.valid) {
+          console.log(`❌ Rejected completion from ${player.username} on level ${data.levelId}: ${replay.reason}`);
+          GlobalDispatcher.sendToAccount(accountId, "notification", "Your run could not be verified and was not added to the highscores");
+          return;
+        }
+        console.log(`✅ Replay verified: ${this.formatTime(replay.timeMs)}`);
+        
+        // Stars follow from the verified time and the par times of the level, the claimed count is only checked
+        if ((data.stars || 0) !== replay.stars) {
+          console.log(`⚠️ ${player.username} claimed ${data.stars || 0} stars on level ${data.levelId} but earned ${replay.stars}`);
+        }
+        Accounts.recordCompletion(accountId, replay.timeMs);
+        
         // Format a simple completion message
-        const formattedTime = (data.timeMs / 1000).toFixed(2);
-        const completionText = `${player.username} completed level ${data.levelId} in ${formattedTime}s with ${data.stars || 0} stars!`;
+        const formattedTime = (replay.timeMs / 1000).toFixed(2);
+        const completionText = `${player.username} completed level ${data.levelId} in ${formattedTime}s with ${replay.stars} stars!`;
         console.log(`Broadcasting notification: ${completionText}`);
         
         // Always broadcast ANY level completion as a simple text notification
@@ -129,65 +219,122 @@ class GameRoom extends Room<GameState> {
         const completionData = {
           username: player.username,
           levelId: data.levelId,
-          timeMs: data.timeMs,
-          stars: data.stars || 0
+          timeMs: replay.timeMs,
+          stars: replay.stars
         };
         
         // Check for highscore separately
-        const highscoreResult = this.addHighscore(data.levelId, {
+        const positions = this.addHighscore(data.levelId, {
           username: player.username,
-          timeMs: data.timeMs,
-          stars: data.stars || 0,
-          timestamp: Date.now()
+          timeMs: replay.timeMs,
+          stars: replay.stars,
+          timestamp: Date.now(),
+          accountId,
+          frames: data.inputs
         });
         
-        // If it's a highscore, broadcast that as a special notification too
-        if (highscoreResult.isTopTen) {
-          const position = highscoreResult.position;
-          console.log(`HIGHSCORE: ${player.username} got position #${position} on level ${data.levelId}`);
+        // If it's a highscore, broadcast that as a special notification too, naming the longest board it made
+        const period = [HighscorePeriod.AllTime, HighscorePeriod.Weekly, HighscorePeriod.Daily]
+          .find(period => positions[period] > 0 && positions[period] <= MAX_HIGHSCORES);
+        if (period) {
+          const position = positions[period];
+          console.log(`HIGHSCORE: ${player.username} got position #${position} on the ${period} board of level ${data.levelId}`);
           
-          const highscoreText = `🏆 ${player.username} got position #${position} on level ${data.levelId} leaderboard!`;
+          const highscoreText = `🏆 ${player.username} got position #${position} on level ${data.levelId} ${BOARD_NAMES[period]} leaderboard!`;
           console.log(`Broadcasting highscore notification: ${highscoreText}`);
           
           // Broadcast highscore as a simple text notification
           GlobalDispatcher.broadcast("broadcast", highscoreText);
         }
+        
+        // Send the updated personal history for the progress graph
+        GlobalDispatcher.sendToAccount(accountId, "level_history", {
+          levelId: data.levelId,
+          attempts: highscores.getHistory(accountId, data.levelId)
+        });
       }
     });
     
-    // Register get_highscores handler
+    // Send the attempts of the player on a level
+    this.onMessage("get_level_history", (client, data) => {
+      if (data?.levelId !== undefined) {
+        this.sendLevelHistory(client, data.levelId);
+      }
+    });
+    
+    // Send the most stars the player earned on each timed level, shown at the overworld portals
+    this.onMessage("get_best_stars", (client) => {
+      const stars: { [levelId: string]: number } = {};
+      TimedLevels.levelIndices.forEach(levelId => {
+        const attempts = highscores.getHistory(client.userData.accountId, levelId);
+        if (attempts.length > 0) {
+          stars[levelId] = Math.max(...attempts.map(attempt => attempt.stars));
+        }
+      });
+      client.send("best_stars", { stars });
+    });
+    
+    // Register get_highscores handler, the board defaults to all-time
     this.onMessage("get_highscores", (client, data) => {
-      console.log(`Player ${client.sessionId} requested highscores for level ${data.levelId}`);
+      console.log(`Player ${client.sessionId} requested ${data.period ?? HighscorePeriod.AllTime} highscores for level ${data.levelId}`);
       
       if (data.levelId !== undefined) {
-        const levelHighscores = this.getHighscores(data.levelId);
+        const period = isHighscorePeriod(data.period) ? data.period : HighscorePeriod.AllTime;
+        const levelHighscores = this.getHighscores(data.levelId, period);
         console.log(`Sending ${levelHighscores.length} highscores for level ${data.levelId}`);
         
         client.send("level_highscores", {
           levelId: data.levelId,
+          period,
           highscores: levelHighscores
         });
       }
     });
 
-    // Add a handler to get ALL highscores (top 5 per level)
-    this.onMessage("get_all_highscores", (client) => {
-      console.log(`Player ${client.sessionId} requested all highscores`);
+    // Add a handler to get ALL highscores (top 5 per level) of one board
+    this.onMessage("get_all_highscores", (client, data) => {
+      const period = isHighscorePeriod(data?.period) ? data.period : HighscorePeriod.AllTime;
+      console.log(`Player ${client.sessionId} requested all ${period} highscores`);
       
-      const allHighscores: {[levelId: string]: Array<{username: string, timeMs: number, stars: number, timestamp: number}>} = {};
+      const allHighscores = highscores.getAll(5, period);
       
-      // Get top 5 for each level
-      Object.keys(this.highscores).forEach(levelId => {
-        allHighscores[levelId] = this.highscores[levelId].slice(0, 5);
+      // Leave out the recorded inputs of each level
+      Object.keys(allHighscores).forEach(levelId => {
+        allHighscores[levelId] = withoutFrames(allHighscores[levelId]);
       });
       
       console.log(`Sending highscores for ${Object.keys(allHighscores).length} levels`);
       
       client.send("all_highscores", {
+        period,
         highscores: allHighscores
       });
     });
 
+    // Send the #1 run of a level so clients can race against its ghost
+    this.onMessage("get_ghost_run", (client, data) => {
+      console.log(`Player ${client.sessionId} requested the ghost run for level ${data.levelId}`);
+      
+      if (data.levelId !== undefined) {
+        const best = highscores.getLevel(data.levelId).find(entry => entry.frames);
+        let replay: ReplayData | null = null;
+        if (best) {
+          replay = {
+            levelIdx: data.levelId,
+            seed: DEFAULT_SEED,
+            ticks: Math.round(best.timeMs * 60 / 1000),
+            username: best.username,
+            frames: best.frames!
+          };
+        }
+        
+        client.send("ghost_run", {
+          levelId: data.levelId,
+          replay
+        });
+      }
+    });
+
     // Add global notification handler with GlobalDispatcher
     this.onMessage("send_global_notification", (client, data) => {
       const player = this.state.players.get(client.sessionId);
@@ -208,10 +355,12 @@ class GameRoom extends Room<GameState> {
   }
 
   onJoin(client: Client, options: any) {
-    console.log(`Player ${client.sessionId} joined`);
+    console.log(`Player ${client.sessionId} joined level ${this.levelIdx}`);
     
-    // Get username from options if provided
-    const username = options?.username || "Unknown Player";
+    // Log in with the account token, new players get an account named after their requested username
+    const login = Accounts.login(options?.token, options?.username, options?.newSession === true);
+    client.userData = { accountId: login.account.id };
+    const username = login.account.displayName;
     
     // Create new player with username
     this.state.players.set(client.sessionId, new Player(client.sessionId, username));
@@ -238,105 +387,8 @@ class GameRoom extends Room<GameState> {
     console.log(`Game room disposed: ${this.roomId}`);
   }
   
-  // Ensure the data directory exists
-  private ensureDataDirectoryExists(): void {
-    const dataDir = path.dirname(this.highscoresPath);
-    console.log(`Ensuring data directory exists: ${dataDir}`);
-    
-    try {
-      if (!fs.existsSync(dataDir)) {
-        console.log(`Creating data directory: ${dataDir}`);
-        fs.mkdirSync(dataDir, { recursive: true });
-      }
-    } catch (error) {
-      console.error(`Failed to create data directory: ${dataDir}`, error);
-    }
-  }
-  
-  // Load highscores from disk with improved logging
-  private loadHighscores(): void {
-    console.log(`Loading highscores from: ${this.highscoresPath}`);
-    
-    try {
-      if (fs.existsSync(this.highscoresPath)) {
-        const data = fs.readFileSync(this.highscoresPath, 'utf8');
-        this.highscores = JSON.parse(data);
-        
-        // Count total highscores
-        let totalEntries = 0;
-        let totalLevels = 0;
-        
-        Object.keys(this.highscores).forEach(levelId => {
-          if (this.highscores[levelId] && this.highscores[levelId].length > 0) {
-            totalLevels++;
-            totalEntries += this.highscores[levelId].length;
-          }
-        });
-        
-        console.log(`✅ Highscores loaded from disk: ${totalEntries} entries across ${totalLevels} levels`);
-        
-        // Log a summary of the highscores
-        Object.keys(this.highscores).sort((a, b) => parseInt(a) - parseInt(b)).forEach(levelId => {
-          const scores = this.highscores[levelId];
-          if (scores && scores.length > 0) {
-            console.log(`- Level ${levelId}: ${scores.length} entries, top score: ${scores[0].username} (${scores[0].timeMs}ms)`);
-          }
-        });
-      } else {
-        this.highscores = {};
-        console.log(`⚠️ No highscores file found at ${this.highscoresPath}, starting with empty highscores`);
-      }
-    } catch (error) {
-      console.error(`❌ Error loading highscores from ${this.highscoresPath}:`, error);
-      this.highscores = {};
-    }
-  }
-  
-  // Save highscores to disk with improved error handling
-  private saveHighscores(): void {
-    console.log(`Saving highscores to: ${this.highscoresPath}`);
-    
-    try {
-      // Ensure directory exists
-      this.ensureDataDirectoryExists();
-      
-      // Create JSON string
-      const data = JSON.stringify(this.highscores, null, 2);
-      
-      // Save to a temp file first to avoid nodemon restart
-      const tempFile = `${this.highscoresPath}.tmp`;
-      
-      // Write to temp file
-      fs.writeFileSync(tempFile, data, 'utf8');
-      
-      // Then rename (atomic operation) to avoid nodemon watching the write
-      fs.renameSync(tempFile, this.highscoresPath);
-      
-      // Count total highscores for logging
-      let totalEntries = 0;
-      Object.values(this.highscores).forEach(scores => {
-        totalEntries += scores.length;
-      });
-      
-      console.log(`✅ Highscores saved to ${this.highscoresPath} (${totalEntries} total entries)`);
-      
-      // Log file stats to confirm it was saved
-      const stats = fs.statSync(this.highscoresPath);
-      console.log(`File size: ${stats.size} bytes, Last modified: ${stats.mtime}`);
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        console.error(`❌ Error saving highscores: ${error.message}`);
-        console.error(`Stack trace: ${error.stack}`);
-      } else {
-        console.error('❌ Error saving highscores: Unknown error type');
-      }
-    }
-  }
-  
   // Update the addHighscore method with detailed logging
-  private addHighscore(levelId: number, entry: {username: string, timeMs: number, stars: number, timestamp: number}): {isTopTen: boolean, position: number} {
-    const levelIdStr = levelId.toString();
-    
+  private addHighscore(levelId: number, entry: HighscoreEntry): HighscorePositions {
     // Format time for better readability in logs
     const formattedTime = this.formatTime(entry.timeMs);
     
@@ -346,73 +398,38 @@ class GameRoom extends Room<GameState> {
     console.log(`Time: ${formattedTime} (${entry.timeMs}ms)`);
     console.log(`Stars: ${entry.stars}⭐`);
     
-    // Initialize array for this level if it doesn't exist
-    if (!this.highscores[levelIdStr]) {
-      this.highscores[levelIdStr] = [];
-      console.log(`This is the first score ever for level ${levelId}!`);
-    }
-    
-    // Get current highscores for this level
-    const levelScores = [...this.highscores[levelIdStr]]; // Clone array
-    
     // Log current top scores before adding new one
+    const levelScores = highscores.getLevel(levelId, 5);
     if (levelScores.length > 0) {
       console.log(`\nCurrent top scores for Level ${levelId}:`);
-      levelScores.slice(0, Math.min(5, levelScores.length)).forEach((score, idx) => {
+      levelScores.forEach((score, idx) => {
         console.log(`  #${idx+1}: ${score.username} - ${this.formatTime(score.timeMs)} (${score.stars}⭐)`);
       });
     } else {
-      console.log(`No existing scores for Level ${levelId}`);
-    }
-    
-    // Add the new score
-    levelScores.push(entry);
-    
-    // Sort by time (fastest first)
-    levelScores.sort((a, b) => a.timeMs - b.timeMs);
-    
-    // Find position (1-based)
-    let position = 0;
-    for (let i = 0; i < levelScores.length; i++) {
-      if (levelScores[i].timeMs === entry.timeMs && 
-          levelScores[i].username === entry.username &&
-          levelScores[i].timestamp === entry.timestamp) {
-        position = i + 1;
-        break;
-      }
+      console.log(`This is the first score ever for level ${levelId}!`);
     }
     
-    // Check if it's in the top 10
-    const isTopTen = position <= 10;
+    // Add the new score to the daily, weekly and all-time boards, a position of 0 means the player was already faster
+    const positions = highscores.add(levelId, entry);
+    console.log(`Positions: #${positions.daily} today, #${positions.weekly} this week, #${positions.alltime} all-time`);
     
-    if (isTopTen) {
-      // Keep only top 10
-      this.highscores[levelIdStr] = levelScores.slice(0, 10);
-      
+    if (positions.alltime > 0 && positions.alltime <= MAX_HIGHSCORES) {
       console.log(`\n🏆 HIGHSCORE ACHIEVED! 🏆`);
-      console.log(`Position: #${position} of ${levelScores.length} times`);
       
       // Log updated top 5
       console.log(`\nUpdated top scores for Level ${levelId}:`);
-      this.highscores[levelIdStr].slice(0, Math.min(5, this.highscores[levelIdStr].length)).forEach((score, idx) => {
-        const highlight = (score.username === entry.username && 
-                          score.timeMs === entry.timeMs && 
-                          score.timestamp === entry.timestamp) 
-                          ? " <-- NEW!" : "";
+      highscores.getLevel(levelId, 5).forEach((score, idx) => {
+        const highlight = idx + 1 === positions.alltime ? " <-- NEW!" : "";
         console.log(`  #${idx+1}: ${score.username} - ${this.formatTime(score.timeMs)} (${score.stars}⭐)${highlight}`);
       });
-      
-      // Save to disk
-      this.saveHighscores();
     } else {
-      console.log(`\n❌ NOT A TOP 10 SCORE`);
-      console.log(`Position: #${position} of ${levelScores.length} times`);
+      console.log(`\n❌ NOT AN ALL-TIME TOP 10 SCORE`);
       console.log(`Best time: ${this.formatTime(levelScores[0].timeMs)} by ${levelScores[0].username}`);
     }
     
     console.log(`==== END HIGHSCORE CHECK ====\n`);
     
-    return { isTopTen, position };
+    return positions;
   }
   
   // Helper to format time nicely for logging
@@ -428,10 +445,16 @@ class GameRoom extends Room<GameState> {
     }
   }
   
+  private sendLevelHistory(client: Client, levelId: number): void {
+    client.send("level_history", {
+      levelId,
+      attempts: highscores.getHistory(client.userData.accountId, levelId)
+    });
+  }
+  
   // Get highscores for a level
-  private getHighscores(levelId: number): Array<{username: string, timeMs: number, stars: number, timestamp: number}> {
-    const levelIdStr = levelId.toString();
-    return this.highscores[levelIdStr] || [];
+  private getHighscores(levelId: number, period: HighscorePeriod): HighscoreEntry[] {
+    return withoutFrames(highscores.getLevel(levelId, MAX_HIGHSCORES, 0, period));
   }
 }
 
@@ -442,14 +465,103 @@ const server = createServer(app);
 // Serve static files
 app.use(express.static('../client'));
 
+// Read-only leaderboard API for the community site and bots, entries leave out the recorded inputs
+app.use('/api', (req, res, next) => {
+  res.set('Access-Control-Allow-Origin', '*');
+  next();
+});
+
+// Parse an integer parameter, returns null if it is not a non-negative integer
+function parseCount(value: any, fallback: number): number | null {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  return Number.isInteger(number) && number >= 0 ? number : null;
+}
+
+// List the timed levels with the size and best entry of their leaderboards
+app.get('/api/levels', (req, res) => {
+  const levels = TimedLevels.levelIndices.map(levelId => ({
+    levelId,
+    entries: highscores.countLevel(levelId),
+    best: withoutFrames(highscores.getLevel(levelId, 1))[0] ?? null
+  }));
+  res.json({ levels });
+});
+
+// Page through the leaderboard of a level with ?offset= and ?limit=, ?period= picks the daily, weekly or all-time board.
+// Boards only hold the top MAX_HIGHSCORES players, so pages past it are refused instead of coming back empty.
+app.get('/api/levels/:levelId/highscores', (req, res) => {
+  const levelId = Number(req.params.levelId);
+  if (!TimedLevels.isTimedLevel(levelId)) {
+    res.status(404).json({ error: `Level ${req.params.levelId} has no leaderboard` });
+    return;
+  }
+
+  const offset = parseCount(req.query.offset, 0);
+  const limit = parseCount(req.query.limit, MAX_HIGHSCORES);
+  if (offset === null || limit === null || offset >= MAX_HIGHSCORES || limit > MAX_HIGHSCORES) {
+    res.status(400).json({ error: `leaderboards hold the top ${MAX_HIGHSCORES}, offset must be below and limit at most ${MAX_HIGHSCORES}` });
+    return;
+  }
+
+  const period = req.query.period ?? HighscorePeriod.AllTime;
+  if (!isHighscorePeriod(period)) {
+    res.status(400).json({ error: `period must be one of ${Object.values(HighscorePeriod).join(', ')}` });
+    return;
+  }
+
+  res.json({
+    levelId,
+    period,
+    offset,
+    limit,
+    total: highscores.countLevel(levelId, period),
+    highscores: withoutFrames(highscores.getLevel(levelId, limit, offset, period))
+  });
+});
+
+// Look up the entries of a player on every level, by account id or display name
+app.get('/api/players/:player/highscores', (req, res) => {
+  const playerHighscores = highscores.getPlayer(req.params.player);
+  Object.keys(playerHighscores).forEach(levelId => {
+    playerHighscores[levelId] = withoutFrames(playerHighscores[levelId]);
+  });
+  res.json({ player: req.params.player, highscores: playerHighscores });
+});
+
+// Totals over all leaderboards
+app.get('/api/stats', (req, res) => {
+  const allHighscores: Highscores = highscores.getAll();
+  const players = new Set<string>();
+  const levels: { [levelId: string]: { entries: number, bestTimeMs: number, averageTimeMs: number } } = {};
+  let entries = 0;
+
+  Object.keys(allHighscores).forEach(levelId => {
+    const scores = allHighscores[levelId];
+    scores.forEach(entry => players.add(entry.accountId ?? entry.username));
+    entries += scores.length;
+    levels[levelId] = {
+      entries: scores.length,
+      bestTimeMs: scores[0].timeMs,
+      averageTimeMs: scores.reduce((total, entry) => total + entry.timeMs, 0) / scores.length
+    };
+  });
+
+  res.json({ entries, players: players.size, levels });
+});
+
 // Create Colyseus server
+// Completions carry the recorded inputs of the run, so allow larger messages than the default 4KB
 const gameServer = new Server({
-  server,
+  transport: new WebSocketTransport({
+    server,
+    maxPayload: 1024 * 1024
+  }),
 });
 
 // Register both room types
 gameServer.define(RoomType.OVERWORLD, GameRoom);
-gameServer.define(RoomType.GAMEPLAY, GameRoom);
+gameServer.define(RoomType.GAMEPLAY, GameRoom).filterBy(['levelIdx']);
 
 // Start server
 const port = 3000;
@@ -0,0 +1,43 @@
+import * as THREE from 'three';
+import { ConvexShape } from '../../shared/ConvexShape';
+import { Saw } from '../../client/src/Saw';
+
+// Timing loop for the sphere queries, run with npm run bench and compare before and after a change
+const ITERATIONS = 20000;
+
+const shapes: { name: string, shape: ConvexShape }[] = [
+  { name: "box", shape: ConvexShape.createBox(new THREE.Vector3(-1, -0.5, -2), new THREE.Vector3(1, 0.5, 2)) },
+  { name: "beam", shape: ConvexShape.createBeam(new THREE.Vector3(0, 0, 0), new THREE.Vector3(4, 1, 2), 0.5, 0.3) },
+  { name: "saw", shape: new Saw(new THREE.Vector3(1, 2, 3), 1.5, 0.2).body.shape }
+];
+
+// Time a query over the same points for every shape, in microseconds per call
+function time(label: string, query: (shape: ConvexShape, point: THREE.Vector3, other: THREE.Vector3) => void): void {
+  const results = shapes.map(({ name, shape }) => {
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const bounds = shape.getBoundingBox().clone().expandByScalar(1);
+    const size = bounds.getSize(new THREE.Vector3());
+    const points = Array.from({ length: ITERATIONS * 2 }, () =>
+      new THREE.Vector3(random(), random(), random()).multiply(size).add(bounds.min)
+    );
+
+    // Warm up so the first shape isn't timed while the code is still being compiled
+    for (let i = 0; i < ITERATIONS / 10; i++) {
+      query(shape, points[i * 2], points[i * 2 + 1]);
+    }
+
+    const start = process.hrtime.bigint();
+    for (let i = 0; i < ITERATIONS; i++) {
+      query(shape, points[i * 2], points[i * 2 + 1]);
+    }
+    const micros = Number(process.hrtime.bigint() - start) / 1000 / ITERATIONS;
+    return `${name} ${micros.toFixed(2)}us`;
+  });
+  console.log(`${label.padEnd(28)} ${results.join('  ')}`);
+}
+
+time("findSphereContact", (shape, point) => shape.findSphereContact(point, 0.5));
+time("findClosestPointUsingFaces", (shape, point) => shape.findClosestPointUsingFaces(point));
+time("collideWithSphere", (shape, point) => shape.collideWithSphere(point, 0.5));
+time("sweepSphere", (shape, start, end) => shape.sweepSphere(start, end, 0.5));
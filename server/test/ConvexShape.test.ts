@@ -0,0 +1,231 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as THREE from 'three';
+import { ConvexShape } from '../../shared/ConvexShape';
+import { Saw } from '../../client/src/Saw';
+
+const EPSILON = 1e-9;
+
+function assertVectorClose(actual: THREE.Vector3, expected: THREE.Vector3, tolerance: number = EPSILON): void {
+  assert.ok(actual.distanceTo(expected) <= tolerance, `expected (${expected.toArray()}), got (${actual.toArray()})`);
+}
+
+// Same sequence on every run so failures can be reproduced
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+}
+
+// The shapes the level is made of: platforms, beams and the octagonal saw prism
+function createShapes(): { name: string, shape: ConvexShape }[] {
+  return [
+    { name: "box", shape: ConvexShape.createBox(new THREE.Vector3(-1, -0.5, -2), new THREE.Vector3(1, 0.5, 2)) },
+    { name: "beam", shape: ConvexShape.createBeam(new THREE.Vector3(0, 0, 0), new THREE.Vector3(4, 1, 2), 0.5, 0.3) },
+    { name: "saw", shape: new Saw(new THREE.Vector3(1, 2, 3), 1.5, 0.2).body.shape }
+  ];
+}
+
+describe("ConvexShape.findSphereContact", () => {
+  const box = ConvexShape.createBox(new THREE.Vector3(-1, -1, -1), new THREE.Vector3(1, 1, 1));
+
+  it("pushes a sphere out of a face along the face normal", () => {
+    const contact = box.findSphereContact(new THREE.Vector3(0.2, 1.5, -0.3), 1)!;
+    assertVectorClose(contact.normal, new THREE.Vector3(0, 1, 0));
+    assertVectorClose(contact.point, new THREE.Vector3(0.2, 1, -0.3));
+    assert.ok(Math.abs(contact.depth - 0.5) < EPSILON);
+  });
+
+  it("pushes a sphere away from an edge", () => {
+    const contact = box.findSphereContact(new THREE.Vector3(1.5, 1.5, 0), 1)!;
+    assertVectorClose(contact.normal, new THREE.Vector3(1, 1, 0).normalize());
+    assertVectorClose(contact.point, new THREE.Vector3(1, 1, 0));
+    assert.ok(Math.abs(contact.depth - (1 - 0.5 * Math.SQRT2)) < EPSILON);
+  });
+
+  it("pushes a sphere away from a corner", () => {
+    const contact = box.findSphereContact(new THREE.Vector3(1.4, 1.4, 1.4), 1)!;
+    assertVectorClose(contact.normal, new THREE.Vector3(1, 1, 1).normalize());
+    assertVectorClose(contact.point, new THREE.Vector3(1, 1, 1));
+    assert.ok(Math.abs(contact.depth - (1 - 0.4 * Math.sqrt(3))) < EPSILON);
+  });
+
+  it("finds no contact when the sphere is out of reach", () => {
+    assert.equal(box.findSphereContact(new THREE.Vector3(3, 0, 0), 1), null);
+    // Inside the bounding box of the sphere but still too far from the corner
+    assert.equal(box.findSphereContact(new THREE.Vector3(1.6, 1.6, 1.6), 1), null);
+  });
+
+  it("pushes a center inside the shape out through the nearest face", () => {
+    const contact = box.findSphereContact(new THREE.Vector3(0.8, 0, 0.1), 0.5)!;
+    assertVectorClose(contact.normal, new THREE.Vector3(1, 0, 0));
+    assert.ok(Math.abs(contact.depth - 0.7) < EPSILON);
+  });
+
+  createShapes().forEach(({ name, shape }) => {
+    it(`matches the closest point over all faces of the ${name}`, () => {
+      const random = createRandom(7);
+      const bounds = shape.getBoundingBox().clone().expandByScalar(1);
+      const size = bounds.getSize(new THREE.Vector3());
+      const radius = 2;
+      let checked = 0;
+
+      for (let i = 0; i < 2000; i++) {
+        const center = new THREE.Vector3(random(), random(), random()).multiply(size).add(bounds.min);
+        const contact = shape.findSphereContact(center, radius);
+        // Centers inside the shape have no closest point on the surface to compare with
+        if (!contact || contact.depth >= radius) continue;
+
+        const closest = shape.findClosestPointUsingFaces(center);
+        assertVectorClose(contact.point, closest, 1e-6);
+        assert.ok(Math.abs(contact.depth - (radius - closest.distanceTo(center))) < 1e-6);
+        checked++;
+      }
+      assert.ok(checked > 500, `only ${checked} centers were outside the ${name}`);
+    });
+  });
+});
+
+describe("ConvexShape.sweepSphere", () => {
+  it("stops a fast sphere on top of a thin platform", () => {
+    const platform = ConvexShape.createBox(new THREE.Vector3(-5, -0.05, -5), new THREE.Vector3(5, 0.05, 5));
+    const hit = platform.sweepSphere(new THREE.Vector3(0, 3, 0), new THREE.Vector3(0, -3, 0), 0.5)!;
+    assertVectorClose(hit.normal, new THREE.Vector3(0, 1, 0));
+    assert.ok(Math.abs(hit.center.y - 0.55) < 0.002);
+    assert.ok(Math.abs(hit.time - (3 - 0.55) / 6) < 0.001);
+  });
+
+  it("stops a sphere on the side of a beam", () => {
+    const beam = ConvexShape.createBeam(new THREE.Vector3(0, 0, 0), new THREE.Vector3(10, 0, 0), 1, 1);
+    const hit = beam.sweepSphere(new THREE.Vector3(5, 4, 0), new THREE.Vector3(5, -4, 0), 0.5)!;
+    assertVectorClose(hit.normal, new THREE.Vector3(0, 1, 0), 1e-6);
+    assert.ok(Math.abs(hit.center.y - 1) < 0.002);
+  });
+
+  it("stops a sphere on the flat side of the saw", () => {
+    const saw = new Saw(new THREE.Vector3(0, 0, 0), 1, 0.2).body.shape;
+    const hit = saw.sweepSphere(new THREE.Vector3(0, 0, 3), new THREE.Vector3(0, 0, -3), 0.25)!;
+    assertVectorClose(hit.normal, new THREE.Vector3(0, 0, 1), 1e-6);
+    assert.ok(Math.abs(hit.center.z - 0.35) < 0.002);
+  });
+
+  it("misses when the path passes beside the shape", () => {
+    const platform = ConvexShape.createBox(new THREE.Vector3(-5, -0.05, -5), new THREE.Vector3(5, 0.05, 5));
+    assert.equal(platform.sweepSphere(new THREE.Vector3(7, 3, 0), new THREE.Vector3(7, -3, 0), 0.5), null);
+  });
+
+  it("reports time 0 when the sphere already touches at the start", () => {
+    const platform = ConvexShape.createBox(new THREE.Vector3(-5, -0.05, -5), new THREE.Vector3(5, 0.05, 5));
+    const hit = platform.sweepSphere(new THREE.Vector3(0, 0.5, 0), new THREE.Vector3(0, -1, 0), 0.5)!;
+    assert.equal(hit.time, 0);
+  });
+
+  createShapes().forEach(({ name, shape }) => {
+    it(`hits the ${name} no later than stepping along the path finds it`, () => {
+      const random = createRandom(11);
+      const bounds = shape.getBoundingBox().clone().expandByScalar(2);
+      const size = bounds.getSize(new THREE.Vector3());
+      const radius = 0.2;
+      const steps = 400;
+
+      for (let i = 0; i < 50; i++) {
+        const start = new THREE.Vector3(random(), random(), random()).multiply(size).add(bounds.min);
+        const end = new THREE.Vector3(random(), random(), random()).multiply(size).add(bounds.min);
+        if (shape.findSphereContact(start, radius)) continue;
+
+        let steppedTime: number | null = null;
+        for (let step = 1; step <= steps && steppedTime === null; step++) {
+          const center = start.clone().lerp(end, step / steps);
+          if (shape.findSphereContact(center, radius)) steppedTime = step / steps;
+        }
+
+        const hit = shape.sweepSphere(start, end, radius);
+        if (steppedTime === null) {
+          // Grazing paths may touch between two steps
+          if (hit) assert.ok(hit.center.distanceTo(shape.findClosestPointUsingFaces(hit.center)) <= radius + 0.002);
+          continue;
+        }
+        assert.ok(hit, `sweep missed a path that touches the ${name}`);
+        assert.ok(hit!.time <= steppedTime + EPSILON, `sweep hit at ${hit!.time}, stepping at ${steppedTime}`);
+      }
+    });
+  });
+});
+
+// Check that a hull is convex, wound like the hand-written shapes and holds every point it was built from
+function assertValidHull(hull: ConvexShape, points: THREE.Vector3[]): void {
+  const corners = hull.getLocalPoints();
+  const center = new THREE.Vector3();
+  corners.forEach(corner => center.add(corner));
+  center.divideScalar(corners.length);
+
+  let edges = 0;
+  hull.faces.forEach(face => {
+    const facePoints = face.indices.map(index => corners[index]);
+    // Faces are wound so calculateFaceNormal points into the shape
+    const inward = hull.calculateFaceNormal(facePoints);
+    assert.ok(inward.dot(center.clone().sub(facePoints[0])) > 0, "face normal points out of the hull");
+    facePoints.forEach(point => assert.ok(Math.abs(inward.dot(point.clone().sub(facePoints[0]))) < 1e-6, "face is not flat"));
+    points.forEach(point => assert.ok(inward.dot(point.clone().sub(facePoints[0])) > -1e-6, "point is outside the hull"));
+    edges += face.indices.length;
+  });
+
+  // Euler characteristic of a closed convex polyhedron
+  assert.equal(corners.length - edges / 2 + hull.faces.length, 2);
+}
+
+describe("ConvexShape.fromPoints", () => {
+  it("builds a box from its corners and drops points inside it", () => {
+    const points: THREE.Vector3[] = [];
+    [0, 1].forEach(x => [0, 1].forEach(y => [0, 1].forEach(z => points.push(new THREE.Vector3(x, y, z)))));
+    points.push(new THREE.Vector3(0.5, 0.5, 0.5), new THREE.Vector3(0.5, 0, 0), new THREE.Vector3(1, 0.5, 0.5));
+
+    const hull = ConvexShape.fromPoints(points);
+    assert.equal(hull.getLocalPoints().length, 8);
+    assert.deepEqual(hull.faces.map(face => face.indices.length), [4, 4, 4, 4, 4, 4]);
+    assertValidHull(hull, points);
+  });
+
+  it("holds every point of random clouds", () => {
+    const random = createRandom(3);
+    for (let cloud = 0; cloud < 5; cloud++) {
+      const points = Array.from({ length: 200 }, () => new THREE.Vector3(random() * 4 - 2, random() * 4 - 2, random() * 4 - 2));
+      assertValidHull(ConvexShape.fromPoints(points), points);
+    }
+  });
+
+  it("throws when all points are in one plane", () => {
+    const points = [new THREE.Vector3(0, 0, 0), new THREE.Vector3(1, 0, 0), new THREE.Vector3(1, 0, 1), new THREE.Vector3(0, 0, 1)];
+    assert.throws(() => ConvexShape.fromPoints(points), /not in one plane/);
+  });
+});
+
+describe("ConvexShape generators", () => {
+  it("builds a wedge with a bottom, a back, a slope and two triangle sides", () => {
+    const wedge = ConvexShape.createWedge(new THREE.Vector3(-0.5, -0.5, -0.5), new THREE.Vector3(0.5, 0.5, 0.5));
+    assert.equal(wedge.getLocalPoints().length, 6);
+    assert.deepEqual(wedge.faces.map(face => face.indices.length).sort(), [3, 3, 4, 4, 4]);
+    assertValidHull(wedge, wedge.getLocalPoints());
+
+    // A sphere on the slope is pushed out along the slope normal
+    const contact = wedge.findSphereContact(new THREE.Vector3(0, 0.3, 0), 0.5)!;
+    assertVectorClose(contact.normal, new THREE.Vector3(-1, 1, 0).normalize(), 1e-6);
+  });
+
+  it("builds a cylinder with two caps and a quad on every side", () => {
+    const cylinder = ConvexShape.createCylinder(0.5, 1);
+    assert.equal(cylinder.getLocalPoints().length, 32);
+    assert.equal(cylinder.faces.length, 18);
+    assert.deepEqual(cylinder.faces.map(face => face.indices.length).filter(count => count !== 4), [16, 16]);
+    assertValidHull(cylinder, cylinder.getLocalPoints());
+  });
+
+  it("builds prisms with any number of sides", () => {
+    [3, 6, 8].forEach(sides => {
+      const prism = ConvexShape.createPrism(1, 2, sides);
+      assert.equal(prism.faces.length, sides + 2);
+      assertValidHull(prism, prism.getLocalPoints());
+    });
+  });
+});
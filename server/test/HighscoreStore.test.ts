@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { HighscoreEntry, HighscoreStore, MAX_ATTEMPTS, MAX_HIGHSCORES, periodStart } from '../HighscoreStore';
+import { JsonHighscoreStore } from '../JsonHighscoreStore';
+import { SqliteHighscoreStore } from '../SqliteHighscoreStore';
+import { HighscorePeriod } from '../../shared/types';
+
+const LEVEL_ID = 2;
+
+// Both stores are opened on files in their own directory, so they can be reopened to check what was saved
+const STORES: { name: string, open: (directory: string) => HighscoreStore }[] = [
+  {
+    name: "JsonHighscoreStore",
+    open: directory => new JsonHighscoreStore(path.join(directory, 'highscores.json'), path.join(directory, 'attempts.json'))
+  },
+  {
+    name: "SqliteHighscoreStore",
+    open: directory => new SqliteHighscoreStore(path.join(directory, 'highscores.db'), path.join(directory, 'highscores.json'), path.join(directory, 'attempts.json'))
+  }
+];
+
+function createEntry(player: string, timeMs: number, timestamp: number = Date.now(), frames?: number[][]): HighscoreEntry {
+  return { username: player, timeMs, stars: 1, timestamp, accountId: `account-${player}`, frames };
+}
+
+function usernames(entries: HighscoreEntry[]): string[] {
+  return entries.map(entry => entry.username);
+}
+
+STORES.forEach(({ name, open }) => {
+  describe(name, () => {
+    let directory: string;
+    let store: HighscoreStore;
+    // A moment of last week, on the all-time board but on neither board of the current period
+    const lastWeek = periodStart(HighscorePeriod.Weekly, Date.now()) - 1;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'highscores-'));
+      store = open(directory);
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("ranks runs fastest first", () => {
+      assert.deepEqual(store.add(LEVEL_ID, createEntry("ann", 5000)), { daily: 1, weekly: 1, alltime: 1 });
+      assert.deepEqual(store.add(LEVEL_ID, createEntry("bob", 4000)), { daily: 1, weekly: 1, alltime: 1 });
+      assert.deepEqual(store.add(LEVEL_ID, createEntry("cat", 6000)), { daily: 3, weekly: 3, alltime: 3 });
+      assert.deepEqual(usernames(store.getLevel(LEVEL_ID)), ["bob", "ann", "cat"]);
+      assert.equal(store.countLevel(LEVEL_ID), 3);
+    });
+
+    it("keeps equal times behind the run that was there first", () => {
+      store.add(LEVEL_ID, createEntry("ann", 5000));
+      assert.equal(store.add(LEVEL_ID, createEntry("bob", 5000)).alltime, 2);
+      assert.deepEqual(usernames(store.getLevel(LEVEL_ID)), ["ann", "bob"]);
+    });
+
+    it("keeps only the best run of every player on a board", () => {
+      store.add(LEVEL_ID, createEntry("ann", 5000));
+      assert.deepEqual(store.add(LEVEL_ID, createEntry("ann", 3000)), { daily: 1, weekly: 1, alltime: 1 });
+      assert.deepEqual(store.add(LEVEL_ID, createEntry("ann", 6000)), { daily: 0, weekly: 0, alltime: 0 });
+
+      const board = store.getLevel(LEVEL_ID);
+      assert.deepEqual(board.map(entry => entry.timeMs), [3000]);
+      assert.equal(store.countLevel(LEVEL_ID), 1);
+    });
+
+    it("keeps a board for the day, the week and all time", () => {
+      store.add(LEVEL_ID, createEntry("ann", 3000, lastWeek));
+      assert.deepEqual(store.add(LEVEL_ID, createEntry("bob", 5000)), { daily: 1, weekly: 1, alltime: 2 });
+
+      assert.deepEqual(usernames(store.getLevel(LEVEL_ID, MAX_HIGHSCORES, 0, HighscorePeriod.AllTime)), ["ann", "bob"]);
+      assert.deepEqual(usernames(store.getLevel(LEVEL_ID, MAX_HIGHSCORES, 0, HighscorePeriod.Weekly)), ["bob"]);
+      assert.deepEqual(usernames(store.getLevel(LEVEL_ID, MAX_HIGHSCORES, 0, HighscorePeriod.Daily)), ["bob"]);
+      assert.equal(store.countLevel(LEVEL_ID, HighscorePeriod.Daily), 1);
+    });
+
+    it("puts a player on the boards of this week with a run slower than their all-time best", () => {
+      store.add(LEVEL_ID, createEntry("ann", 3000, lastWeek));
+      assert.deepEqual(store.add(LEVEL_ID, createEntry("ann", 4000)), { daily: 1, weekly: 1, alltime: 0 });
+
+      assert.equal(store.getLevel(LEVEL_ID, MAX_HIGHSCORES, 0, HighscorePeriod.AllTime)[0].timeMs, 3000);
+      assert.equal(store.getLevel(LEVEL_ID, MAX_HIGHSCORES, 0, HighscorePeriod.Weekly)[0].timeMs, 4000);
+    });
+
+    it("ends the boards after the top runs and pages through them", () => {
+      for (let i = 0; i < MAX_HIGHSCORES + 2; i++) {
+        assert.equal(store.add(LEVEL_ID, createEntry(`player${i}`, 1000 + i)).alltime, i + 1);
+      }
+
+      assert.equal(store.getLevel(LEVEL_ID).length, MAX_HIGHSCORES);
+      assert.equal(store.countLevel(LEVEL_ID), MAX_HIGHSCORES);
+      assert.deepEqual(usernames(store.getLevel(LEVEL_ID, 3, 8)), ["player8", "player9"]);
+    });
+
+    it("keeps the recorded inputs of runs on a board only", () => {
+      const frames = [[60, 1, 0, 0, 1000]];
+      for (let i = 0; i < MAX_HIGHSCORES + 1; i++) {
+        store.add(LEVEL_ID, createEntry(`player${i}`, 1000 + i, Date.now(), frames));
+      }
+
+      assert.deepEqual(store.getLevel(LEVEL_ID)[0].frames, frames);
+      assert.equal(store.getPlayer(`account-player${MAX_HIGHSCORES}`)[LEVEL_ID][0].frames, undefined);
+    });
+
+    it("returns the best run of a player on every level", () => {
+      store.add(LEVEL_ID, createEntry("ann", 5000));
+      store.add(LEVEL_ID, createEntry("ann", 3000));
+      store.add(LEVEL_ID, createEntry("ann", 6000));
+      store.add(4, createEntry("ann", 9000));
+      store.add(4, createEntry("bob", 8000));
+
+      const byAccount = store.getPlayer("account-ann");
+      assert.deepEqual(Object.keys(byAccount).sort(), ["2", "4"]);
+      assert.deepEqual(byAccount[LEVEL_ID].map(entry => entry.timeMs), [3000]);
+      assert.deepEqual(byAccount[4].map(entry => entry.timeMs), [9000]);
+      assert.deepEqual(store.getPlayer("ANN"), byAccount);
+    });
+
+    it("returns the top runs of every level", () => {
+      store.add(LEVEL_ID, createEntry("ann", 5000));
+      store.add(LEVEL_ID, createEntry("bob", 4000));
+      store.add(4, createEntry("cat", 9000, lastWeek));
+
+      const all = store.getAll(1);
+      assert.deepEqual(usernames(all[LEVEL_ID]), ["bob"]);
+      assert.deepEqual(usernames(all[4]), ["cat"]);
+      assert.deepEqual(Object.keys(store.getAll(5, HighscorePeriod.Weekly)), ["2"]);
+    });
+
+    it("keeps the latest attempts of every account and level, oldest first", () => {
+      const start = Date.now();
+      for (let i = 0; i < MAX_ATTEMPTS + 1; i++) {
+        store.add(LEVEL_ID, createEntry("ann", 5000 - i, start + i));
+      }
+
+      const history = store.getHistory("account-ann", LEVEL_ID);
+      assert.equal(history.length, MAX_ATTEMPTS);
+      assert.deepEqual(history[0], { timeMs: 4999, stars: 1, timestamp: start + 1 });
+      assert.equal(history[MAX_ATTEMPTS - 1].timeMs, 5000 - MAX_ATTEMPTS);
+      assert.deepEqual(store.getHistory("account-ann", 4), []);
+      assert.deepEqual(store.getHistory("account-bob", LEVEL_ID), []);
+    });
+
+    it("renames the entries of an account", () => {
+      store.add(LEVEL_ID, createEntry("ann", 5000));
+      store.renameAccount("account-ann", "Anna");
+      assert.deepEqual(usernames(store.getLevel(LEVEL_ID)), ["Anna"]);
+    });
+
+    it("keeps the highscores and attempts after reopening", () => {
+      store.add(LEVEL_ID, createEntry("ann", 5000));
+      store.add(LEVEL_ID, createEntry("bob", 4000, lastWeek));
+
+      const reopened = open(directory);
+      assert.deepEqual(usernames(reopened.getLevel(LEVEL_ID)), ["bob", "ann"]);
+      assert.equal(reopened.getHistory("account-ann", LEVEL_ID).length, 1);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LEVEL_FORMAT_VERSION, LevelFormat } from '../../client/src/LevelFormat';
+
+// A level as the editor saved it in version 2, before platforms had a shape
+function createVersion2Level(): any {
+  return {
+    name: "Old Level",
+    author: "Level Editor",
+    version: 2,
+    created: "2025-01-01T00:00:00.000Z",
+    platforms: [
+      { position: [0, 5, 0], rotation: [0, 0, 0], scale: [10, 1, 10], color: "#ff0000", name: "floor" },
+      { position: [0, 8, 0], rotation: [0, 0.5, 0], scale: [4, 4, 4], color: "#00ff00", name: "block" }
+    ],
+    movingPlatforms: [],
+    ropes: [],
+    saws: [],
+    actionAreas: [],
+    updrafts: [],
+    checkpoints: [],
+    collectibles: [],
+    requireAllCollectibles: false,
+    parTimes: []
+  };
+}
+
+describe("LevelFormat", () => {
+  it("migrates version 2 platforms to boxes", () => {
+    const data = LevelFormat.migrate(createVersion2Level());
+    assert.equal(LEVEL_FORMAT_VERSION, 3);
+    assert.equal(data.version, 3);
+    assert.deepEqual(data.platforms.map((platform: any) => platform.shape), ["box", "box"]);
+    assert.deepEqual(LevelFormat.validate(data), []);
+  });
+
+  it("keeps the shapes of version 3 platforms", () => {
+    const data = createVersion2Level();
+    data.version = 3;
+    data.platforms[0].shape = "wedge";
+    data.platforms[1].shape = "cylinder";
+    assert.deepEqual(LevelFormat.migrate(data).platforms.map((platform: any) => platform.shape), ["wedge", "cylinder"]);
+    assert.deepEqual(LevelFormat.validate(data), []);
+  });
+
+  it("rejects platforms without a known shape", () => {
+    const data = createVersion2Level();
+    data.version = 3;
+    data.platforms[0].shape = "pyramid";
+    assert.deepEqual(LevelFormat.validate(data), [
+      "platforms[0].shape must be one of box, wedge, cylinder, got \"pyramid\"",
+      "platforms[1].shape must be one of box, wedge, cylinder, got undefined"
+    ]);
+  });
+});
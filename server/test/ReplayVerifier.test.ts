@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as THREE from 'three';
+import { ReplayVerifier } from '../ReplayVerifier';
+import { Level } from '../../client/src/Level';
+import { TimedLevels } from '../../client/src/TimedLevels';
+import { InputLog } from '../../shared/InputLog';
+
+const TICKS_PER_SECOND = 60;
+
+// The tutorial can be finished by walking from platform to platform, its slowest par time is 90s
+const TUTORIAL_LEVEL = 2;
+const TUTORIAL_ROUTE = [[-3, -40], [-3, -5], [-12, 16], [-20, 21]];
+// Walking straight along +x off the start platform of the simple finish level is a fall without checkpoint
+const SIMPLE_FINISH_LEVEL = 4;
+const FALL_ROUTE = [[100, -13.5]];
+// The drop level has the shortest par times, 20s at most
+const DROP_LEVEL = 5;
+
+interface RecordedRun {
+  frames: number[][];
+  ticks: number;
+  timeMs: number;
+  finished: boolean;
+}
+
+// Walk towards every point of the route in turn, recorded the way Game records a timed run
+function recordRun(levelId: number, route: number[][], maxTicks: number = 3000): RecordedRun {
+  const level = new Level(levelId);
+  level.addPlayer("replay", true);
+  TimedLevels.loadLevel(level, null, levelId);
+  level.localPlayer?.setPosition(level.playerStartPosition);
+
+  const inputLog = new InputLog();
+  let point = 0;
+  while (inputLog.tickCount < maxTicks && level.localPlayer && !level.isFinished) {
+    const position = level.localPlayer.getPosition();
+    const toPoint = new THREE.Vector3(route[point][0] - position.x, 0, route[point][1] - position.z);
+    if (toPoint.length() < 2 && point < route.length - 1) {
+      point++;
+      continue;
+    }
+
+    level.fixedUpdate(inputLog.record({
+      playerForward: toPoint.normalize(),
+      playerInput: { w: true, a: false, s: false, d: false, space: false, shift: false }
+    }));
+  }
+
+  return {
+    frames: inputLog.frames,
+    ticks: inputLog.tickCount,
+    timeMs: inputLog.tickCount * 1000 / TICKS_PER_SECOND,
+    finished: level.isFinished
+  };
+}
+
+describe("ReplayVerifier.verify", () => {
+  const run = recordRun(TUTORIAL_LEVEL, TUTORIAL_ROUTE);
+
+  it("accepts a recorded run at the time it finished", () => {
+    assert.ok(run.finished, `the route did not finish the level within ${run.ticks} ticks`);
+
+    const result = ReplayVerifier.verify(TUTORIAL_LEVEL, run.frames, run.timeMs);
+    assert.equal(result.reason, "");
+    assert.ok(result.valid);
+    assert.equal(result.timeMs, run.timeMs);
+    assert.equal(result.stars, 3);
+  });
+
+  it("rejects a run claiming a different time", () => {
+    const slower = ReplayVerifier.verify(TUTORIAL_LEVEL, run.frames, run.timeMs + 1000);
+    assert.equal(slower.valid, false);
+    assert.match(slower.reason, /replay finished after \d+ ticks but \d+ were claimed/);
+
+    const faster = ReplayVerifier.verify(TUTORIAL_LEVEL, run.frames, run.timeMs - 1000);
+    assert.equal(faster.valid, false);
+    assert.equal(faster.reason, "missing, malformed or too long input log");
+  });
+
+  it("rejects a run with tampered inputs", () => {
+    // Standing still for the first second sends the rest of the run somewhere else
+    const frames = run.frames.map(frame => [...frame]);
+    let ticks = 0;
+    for (const frame of frames) {
+      if (ticks >= TICKS_PER_SECOND) break;
+      frame[1] = 0;
+      ticks += frame[0];
+    }
+
+    assert.equal(ReplayVerifier.verify(TUTORIAL_LEVEL, frames, run.timeMs).valid, false);
+  });
+
+  it("rejects malformed input logs", () => {
+    assert.equal(ReplayVerifier.verify(TUTORIAL_LEVEL, undefined, run.timeMs).valid, false);
+    assert.equal(ReplayVerifier.verify(TUTORIAL_LEVEL, "frames", run.timeMs).valid, false);
+    assert.equal(ReplayVerifier.verify(TUTORIAL_LEVEL, [[1, 2]], run.timeMs).valid, false);
+  });
+
+  it("rejects levels without a timer", () => {
+    const result = ReplayVerifier.verify(0, run.frames, run.timeMs);
+    assert.equal(result.valid, false);
+    assert.equal(result.reason, "level 0 is not a timed level");
+  });
+
+  it("rejects times beyond four times the slowest par time", () => {
+    // One tick past 4 x 20s, refused before anything is simulated
+    const ticks = 4 * 20 * TICKS_PER_SECOND + 1;
+    const result = ReplayVerifier.verify(DROP_LEVEL, [[ticks, 0, 0, 0, 1000]], ticks * 1000 / TICKS_PER_SECOND);
+    assert.equal(result.valid, false);
+    assert.equal(result.reason, `claimed ${ticks} ticks, more than the ${ticks - 1} allowed on this level`);
+  });
+
+  it("rejects a run in which the player falls to their death", () => {
+    const fall = recordRun(SIMPLE_FINISH_LEVEL, FALL_ROUTE);
+    assert.equal(fall.finished, false);
+
+    const result = ReplayVerifier.verify(SIMPLE_FINISH_LEVEL, fall.frames, fall.timeMs);
+    assert.equal(result.valid, false);
+    assert.equal(result.reason, `player died after ${fall.ticks} ticks`);
+  });
+});
@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+
+// Items covering more cells than this are kept in one list that every query returns, like huge ground platforms
+const MAX_CELLS_PER_ITEM = 512;
+
+interface BroadphaseEntry {
+    bounds: THREE.Box3;
+    cells: string[];
+    // Insertion order, queries return items in this order so collisions resolve the same as before the index existed
+    order: number;
+}
+
+/**
+ * Uniform grid over bounding boxes, finds the items that may touch a box without testing all of them.
+ * Items have to be updated when their bounding box changes.
+ */
+export class Broadphase<T> {
+    private cellSize: number;
+    private cells: Map<string, Set<T>> = new Map();
+    private entries: Map<T, BroadphaseEntry> = new Map();
+    private largeItems: Set<T> = new Set();
+    private nextOrder: number = 0;
+
+    /**
+     * Create an empty grid
+     * @param cellSize Edge length of a grid cell in world units
+     */
+    constructor(cellSize: number = 16) {
+        this.cellSize = cellSize;
+    }
+
+    /**
+     * Add an item, or move it if it is already in the grid
+     * @param item The item to add
+     * @param bounds Bounding box of the item, copied
+     */
+    public insert(item: T, bounds: THREE.Box3): void {
+        const existing = this.entries.get(item);
+        const order = existing ? existing.order : this.nextOrder++;
+        if (existing) {
+            this.remove(item);
+        }
+
+        const entry: BroadphaseEntry = { bounds: bounds.clone(), cells: [], order };
+        this.entries.set(item, entry);
+        if (bounds.isEmpty()) return;
+
+        const min = this.toCell(bounds.min);
+        const max = this.toCell(bounds.max);
+        const cellCount = (max.x - min.x + 1) * (max.y - min.y + 1) * (max.z - min.z + 1);
+        if (cellCount > MAX_CELLS_PER_ITEM) {
+            this.largeItems.add(item);
+            return;
+        }
+
+        for (let x = min.x; x <= max.x; x++) {
+            for (let y = min.y; y <= max.y; y++) {
+                for (let z = min.z; z <= max.z; z++) {
+                    const key = `${x},${y},${z}`;
+                    let cell = this.cells.get(key);
+                    if (!cell) {
+                        cell = new Set();
+                        this.cells.set(key, cell);
+                    }
+                    cell.add(item);
+                    entry.cells.push(key);
+                }
+            }
+        }
+    }
+
+    /**
+     * Move an item that is in the grid to its new bounding box, items that aren't in the grid are ignored
+     * @param item The item that moved
+     * @param bounds New bounding box of the item
+     */
+    public update(item: T, bounds: THREE.Box3): void {
+        const entry = this.entries.get(item);
+        if (!entry || entry.bounds.equals(bounds)) return;
+        this.insert(item, bounds);
+    }
+
+    /**
+     * Remove an item from the grid
+     * @param item The item to remove
+     */
+    public remove(item: T): void {
+        const entry = this.entries.get(item);
+        if (!entry) return;
+
+        entry.cells.forEach(key => {
+            const cell = this.cells.get(key);
+            if (!cell) return;
+            cell.delete(item);
+            if (cell.size === 0) {
+                this.cells.delete(key);
+            }
+        });
+        this.largeItems.delete(item);
+        this.entries.delete(item);
+    }
+
+    public clear(): void {
+        this.cells.clear();
+        this.entries.clear();
+        this.largeItems.clear();
+    }
+
+    /**
+     * Find the items whose bounding box overlaps a box
+     * @param bounds The box to search
+     * @returns The items in the order they were inserted
+     */
+    public query(bounds: THREE.Box3): T[] {
+        const found = new Set<T>(this.largeItems);
+        const min = this.toCell(bounds.min);
+        const max = this.toCell(bounds.max);
+
+        for (let x = min.x; x <= max.x; x++) {
+            for (let y = min.y; y <= max.y; y++) {
+                for (let z = min.z; z <= max.z; z++) {
+                    this.cells.get(`${x},${y},${z}`)?.forEach(item => found.add(item));
+                }
+            }
+        }
+
+        return [...found]
+            .filter(item => this.entries.get(item)!.bounds.intersectsBox(bounds))
+            .sort((a, b) => this.entries.get(a)!.order - this.entries.get(b)!.order);
+    }
+
+    private toCell(point: THREE.Vector3): THREE.Vector3 {
+        return new THREE.Vector3(
+            Math.floor(point.x / this.cellSize),
+            Math.floor(point.y / this.cellSize),
+            Math.floor(point.z / this.cellSize)
+        );
+    }
+}
@@ -2,6 +2,63 @@ import * as THREE from 'three';
 import { toCreasedNormals } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
 import { Body } from './Body';
 
+// Swept spheres step towards the shape by their distance to it, this many steps at most
+const SWEEP_ITERATIONS = 16;
+// Distance at which a swept sphere counts as touching
+const SWEEP_TOLERANCE = 0.001;
+// Points this close to a hull plane count as on it, relative to the size of the point cloud
+const HULL_TOLERANCE = 1e-6;
+
+// Triangle of a convex hull while it is being built
+interface HullTriangle {
+    indices: number[];
+    // Unit normal pointing out of the hull
+    normal: THREE.Vector3;
+    offset: number;
+    // Points in front of the triangle that aren't on the hull yet
+    outside: number[];
+}
+
+export interface ContactPoint {
+    // World position halfway between the two surfaces
+    position: THREE.Vector3;
+    // Negative when the surfaces are still apart by that much
+    depth: number;
+}
+
+/**
+ * Where a sphere touches a convex shape
+ */
+export interface SphereContact {
+    // Closest point on the surface of the shape
+    point: THREE.Vector3;
+    // Unit normal pointing out of the shape towards the sphere center
+    normal: THREE.Vector3;
+    depth: number;
+}
+
+/**
+ * Where a moving sphere first touches a convex shape
+ */
+export interface SweepHit {
+    // Fraction of the motion done at the moment of impact, 0 when the sphere already touches at the start
+    time: number;
+    // Center of the sphere at the moment of impact
+    center: THREE.Vector3;
+    // Unit normal pointing out of the shape towards the sphere center
+    normal: THREE.Vector3;
+}
+
+/**
+ * Where two convex shapes touch. The normal points from the first shape to the second one,
+ * moving the second one by normal * depth separates them.
+ */
+export interface ContactManifold {
+    normal: THREE.Vector3;
+    depth: number;
+    points: ContactPoint[];
+}
+
 /**
  * Represents a 3D convex shape with efficient collision detection and transform capabilities
  */
@@ -25,6 +82,8 @@ export class ConvexShape extends Body {
     
     // Cached data for performance
     boundingBox: THREE.Box3 = new THREE.Box3();
+    // World-space face normals pointing out of the shape, in the order of the faces
+    private faceNormals: THREE.Vector3[] = [];
     
     /**
      * Create a convex shape from points and faces
@@ -68,6 +127,7 @@ export class ConvexShape extends Body {
 
         // Recalculate bounding box
         this.updateBoundingBox();
+        this.faceNormals = this.calculateOutwardFaceNormals();
     }
     
     /**
@@ -128,6 +188,19 @@ export class ConvexShape extends Body {
      * @returns Minimum translation vector to resolve collision, or null if no collision
      */
     collideWithSphere(sphereCenter: THREE.Vector3, sphereRadius: number): THREE.Vector3 | null {
+        const contact = this.findSphereContact(sphereCenter, sphereRadius);
+        return contact ? contact.normal.multiplyScalar(contact.depth) : null;
+    }
+
+    /**
+     * Find where a sphere touches the shape from the closest feature of the shape, a face, an edge or a corner.
+     * Spheres outside get pushed away from the closest point, spheres with their center inside get pushed out
+     * through the closest face.
+     * @param sphereCenter The center of the sphere
+     * @param sphereRadius The radius of the sphere
+     * @returns The contact, or null if the sphere doesn't touch the shape
+     */
+    findSphereContact(sphereCenter: THREE.Vector3, sphereRadius: number): SphereContact | null {
         // Quick rejection with bounding box
         const sphereBox = new THREE.Box3().setFromCenterAndSize(
             sphereCenter,
@@ -137,86 +210,469 @@ export class ConvexShape extends Body {
         if (!this.boundingBox.intersectsBox(sphereBox)) {
             return null; // No collision possible
         }
-        
-        let minPenetration = Number.MAX_VALUE;
-        let minAxis = new THREE.Vector3();
-        
-        // Get all face normals as potential separating axes
-        for (const face of this.faces) {
-            const facePoints = face.indices.map(idx => this.worldPoints[idx]);
-            const normal = this.calculateFaceNormal(facePoints);
-            
-            // Project ALL vertices of the convex shape onto this axis
-            let shapeMin = Number.MAX_VALUE;
-            let shapeMax = -Number.MAX_VALUE;
-            
-            for (const point of this.worldPoints) {
-                const projection = normal.dot(point);
-                shapeMin = Math.min(shapeMin, projection);
-                shapeMax = Math.max(shapeMax, projection);
+
+        // Without faces there are no regions to classify, go by the closest point alone
+        if (this.faces.length === 0) {
+            const closestPoint = this.findClosestPoint(sphereCenter).clone();
+            const toSphere = new THREE.Vector3().subVectors(sphereCenter, closestPoint);
+            const distance = toSphere.length();
+            if (distance > sphereRadius) {
+                return null;
             }
-            
-            // Project sphere onto the axis
-            const sphereCenter_projection = normal.dot(sphereCenter);
-            const sphereMin = sphereCenter_projection - sphereRadius;
-            const sphereMax = sphereCenter_projection + sphereRadius;
-            
-            // Check for separation
-            if (sphereMin > shapeMax || sphereMax < shapeMin) {
-                return null; // Separated along this axis
+            const normal = distance < 0.0001 ? new THREE.Vector3(0, 1, 0) : toSphere.divideScalar(distance);
+            return { point: closestPoint, normal, depth: sphereRadius - distance };
+        }
+
+        // Signed distance of the center to every face plane, the face it is furthest in front of
+        // is the one it leaves through when inside
+        const normals = this.getOutwardFaceNormals();
+        let nearestFace = 0;
+        let nearestDistance = -Number.MAX_VALUE;
+        const distances = this.faces.map((face, i) => {
+            const distance = normals[i].dot(sphereCenter) - normals[i].dot(this.worldPoints[face.indices[0]]);
+            if (distance > nearestDistance) {
+                nearestDistance = distance;
+                nearestFace = i;
             }
-            
-            // Calculate penetration
-            const pen1 = shapeMax - sphereMin;
-            const pen2 = sphereMax - shapeMin;
-            
-            const penetration = Math.min(pen1, pen2);
-            
-            // Track minimum penetration and axis
-            if (penetration < minPenetration) {
-                minPenetration = penetration;
-                minAxis.copy(normal);
-                
-                // Ensure axis points from shape to sphere
-                if (sphereCenter_projection < (shapeMin + shapeMax) / 2) {
-                    minAxis.negate();
+            return distance;
+        });
+
+        // A face plane with the whole sphere in front of it separates them
+        if (nearestDistance > sphereRadius) {
+            return null;
+        }
+
+        if (nearestDistance > 0.0001) {
+            // Outside: the closest point lies on one of the faces the center is in front of,
+            // inside that face, on one of its edges or on a corner
+            let closestPoint = new THREE.Vector3();
+            let minDistSq = Number.MAX_VALUE;
+            this.faces.forEach((face, i) => {
+                // The distance to the plane is the least the distance to the face can be
+                if (distances[i] <= 0 || distances[i] * distances[i] >= minDistSq) return;
+                const faceClosest = this.projectPointOnFace(sphereCenter, face.indices.map(idx => this.worldPoints[idx]));
+                const distSq = sphereCenter.distanceToSquared(faceClosest);
+                if (distSq < minDistSq) {
+                    minDistSq = distSq;
+                    closestPoint = faceClosest;
                 }
+            });
+
+            const distance = Math.sqrt(minDistSq);
+            if (distance > sphereRadius) {
+                return null;
             }
+            const normal = new THREE.Vector3().subVectors(sphereCenter, closestPoint).divideScalar(distance);
+            return { point: closestPoint, normal, depth: sphereRadius - distance };
         }
-        
-        // We also need to check potential axes for edge contacts
-        // But for sphere vs convex, face normals are usually sufficient
-        
-        // If we found a separating axis with minimum penetration
-        if (minPenetration < Number.MAX_VALUE) {
-            return minAxis.multiplyScalar(minPenetration);
+
+        // Inside or on the surface: push out through the nearest face
+        const normal = normals[nearestFace].clone();
+        return {
+            point: sphereCenter.clone().addScaledVector(normal, -nearestDistance),
+            normal,
+            depth: sphereRadius - nearestDistance
+        };
+    }
+    
+    /**
+     * Find the first moment a sphere moving in a straight line touches the shape, so fast spheres can't pass
+     * through thin shapes between two checks
+     * @param start Center of the sphere before the motion
+     * @param end Center of the sphere after the motion
+     * @param sphereRadius The radius of the sphere
+     * @returns The first contact along the motion, or null if the sphere never touches the shape
+     */
+    sweepSphere(start: THREE.Vector3, end: THREE.Vector3, sphereRadius: number): SweepHit | null {
+        const motion = new THREE.Vector3().subVectors(end, start);
+        const length = motion.length();
+        if (length < 0.000001) return null;
+
+        const sweptBox = new THREE.Box3().setFromPoints([start, end]).expandByScalar(sphereRadius);
+        if (!this.boundingBox.intersectsBox(sweptBox)) {
+            return null;
         }
-        
-        // Fallback - shouldn't reach here if faces are defined correctly
-        // Use closest point as fallback
-        const closestPoint = this.findClosestPoint(sphereCenter);
-        const toSphere = new THREE.Vector3().subVectors(sphereCenter, closestPoint);
-        const distanceToClosest = toSphere.length();
-        
-        if (distanceToClosest > sphereRadius) {
+
+        // The sphere can't touch before its center enters the face planes pushed out by the radius,
+        // and can't touch after it left them again
+        let enter = 0;
+        let exit = 1;
+        const normals = this.getOutwardFaceNormals();
+        for (let i = 0; i < this.faces.length; i++) {
+            const normal = normals[i];
+            const gap = normal.dot(this.worldPoints[this.faces[i].indices[0]]) + sphereRadius - normal.dot(start);
+            const approach = normal.dot(motion);
+            if (Math.abs(approach) < 0.000001) {
+                // Moving along the plane, either always in front of it or never
+                if (gap < 0) return null;
+                continue;
+            }
+            const time = gap / approach;
+            if (approach < 0) {
+                enter = Math.max(enter, time);
+            } else {
+                exit = Math.min(exit, time);
+            }
+            if (enter > exit) return null;
+        }
+
+        // Edges and corners are rounded by the sphere, so step the rest of the way by the distance to the shape.
+        // Each step stays short of the shape, the first point within the tolerance is the impact.
+        let time = enter;
+        for (let i = 0; i < SWEEP_ITERATIONS; i++) {
+            const center = start.clone().addScaledVector(motion, time);
+            const reach = sphereRadius + (1 - time) * length + SWEEP_TOLERANCE;
+            const contact = this.findSphereContact(center, reach);
+            if (!contact) return null;
+
+            const gap = reach - contact.depth - sphereRadius;
+            if (gap <= SWEEP_TOLERANCE) {
+                return { time, center, normal: contact.normal };
+            }
+            time += gap / length;
+            if (time > exit) return null;
+        }
+        return null;
+    }
+
+    /**
+     * Check collision with another convex shape using the separating axis test.
+     * The face normals of both shapes and the cross products of their edges are tested.
+     * @param other The shape to test against
+     * @param margin Shapes closer than this also get a contact, with a negative depth, so a solver can stop them before they overlap
+     * @returns Contact manifold with the normal pointing from this shape to the other one, or null if they are further apart
+     */
+    collideWithConvex(other: ConvexShape, margin: number = 0): ContactManifold | null {
+        if (!this.boundingBox.clone().expandByScalar(margin).intersectsBox(other.boundingBox)) {
             return null;
         }
-        
-        const penetrationDepth = sphereRadius - distanceToClosest;
-        
-        // Handle zero distance case
-        if (distanceToClosest < 0.0001) {
-            // Find any face normal as fallback
-            for (const face of this.faces) {
-                const normal = this.calculateFaceNormal(face.indices.map(idx => this.worldPoints[idx]));
-                return normal.multiplyScalar(penetrationDepth);
+        if (this.faces.length === 0 || other.faces.length === 0) {
+            return null;
+        }
+
+        const normalsA = this.getOutwardFaceNormals();
+        const normalsB = other.getOutwardFaceNormals();
+
+        // Best face axis of either shape
+        let faceDepth = Number.MAX_VALUE;
+        let faceNormal = new THREE.Vector3();
+        for (const axis of [...normalsA, ...normalsB]) {
+            const overlap = this.getOverlapOnAxis(other, axis, margin);
+            if (overlap === null) return null;
+            if (overlap.depth < faceDepth) {
+                faceDepth = overlap.depth;
+                faceNormal = overlap.normal;
             }
-            
-            // If no faces, use a default direction
-            return new THREE.Vector3(0, 1, 0).multiplyScalar(penetrationDepth);
         }
-        
-        return toSphere.normalize().multiplyScalar(penetrationDepth);
+
+        // Best edge-edge axis, remembering the edge directions to find the touching edges later
+        let edgeDepth = Number.MAX_VALUE;
+        let edgeNormal = new THREE.Vector3();
+        let edgeDirA = new THREE.Vector3();
+        let edgeDirB = new THREE.Vector3();
+        const directionsB = other.getEdgeDirections();
+        for (const dirA of this.getEdgeDirections()) {
+            for (const dirB of directionsB) {
+                const axis = new THREE.Vector3().crossVectors(dirA, dirB);
+                // Parallel edges give no new axis
+                if (axis.lengthSq() < 0.000001) continue;
+                axis.normalize();
+
+                const overlap = this.getOverlapOnAxis(other, axis, margin);
+                if (overlap === null) return null;
+                if (overlap.depth < edgeDepth) {
+                    edgeDepth = overlap.depth;
+                    edgeNormal = overlap.normal;
+                    edgeDirA = dirA;
+                    edgeDirB = dirB;
+                }
+            }
+        }
+
+        // Prefer faces unless an edge axis is clearly better, otherwise resting boxes flip between both kinds of contact
+        if (edgeDepth < faceDepth - 0.05 * Math.abs(faceDepth) - 0.01) {
+            return this.getEdgeContact(other, edgeNormal, edgeDepth, edgeDirA, edgeDirB);
+        }
+        return this.getFaceContact(other, faceNormal, faceDepth, normalsA, normalsB, margin);
+    }
+
+    /**
+     * Find how far two shapes overlap along an axis
+     * @returns Depth of the overlap and the axis pointing from this shape to the other one,
+     * or null if the axis separates them by more than the margin
+     */
+    private getOverlapOnAxis(other: ConvexShape, axis: THREE.Vector3, margin: number): { depth: number, normal: THREE.Vector3 } | null {
+        const a = this.projectOnAxis(axis);
+        const b = other.projectOnAxis(axis);
+        if (a.max + margin < b.min || b.max + margin < a.min) {
+            return null;
+        }
+
+        // The other shape lies on the side where pushing it out is shorter
+        const forward = a.max - b.min;
+        const backward = b.max - a.min;
+        if (forward < backward) {
+            return { depth: forward, normal: axis.clone() };
+        }
+        return { depth: backward, normal: axis.clone().negate() };
+    }
+
+    private projectOnAxis(axis: THREE.Vector3): { min: number, max: number } {
+        let min = Number.MAX_VALUE;
+        let max = -Number.MAX_VALUE;
+        for (const point of this.worldPoints) {
+            const projection = axis.dot(point);
+            min = Math.min(min, projection);
+            max = Math.max(max, projection);
+        }
+        return { min, max };
+    }
+
+    /**
+     * Contact of a face against a face, edge or corner: the face of the other shape that points most against
+     * the reference face is clipped by the sides of the reference face, and every clipped point within the margin touches
+     */
+    private getFaceContact(
+        other: ConvexShape,
+        normal: THREE.Vector3,
+        depth: number,
+        normalsA: THREE.Vector3[],
+        normalsB: THREE.Vector3[],
+        margin: number
+    ): ContactManifold {
+        // Reference face is the face best aligned with the normal, on whichever shape it is closest
+        const faceA = this.findMostAlignedFace(normalsA, normal);
+        const flippedNormal = normal.clone().negate();
+        const faceB = other.findMostAlignedFace(normalsB, flippedNormal);
+        const useA = normalsA[faceA].dot(normal) >= normalsB[faceB].dot(flippedNormal) - 0.001;
+
+        const reference = useA ? this : other;
+        const incident = useA ? other : this;
+        const referenceIndex = useA ? faceA : faceB;
+        const referenceNormal = useA ? normalsA[faceA] : normalsB[faceB];
+        const incidentNormals = useA ? normalsB : normalsA;
+
+        const referencePoints = reference.faces[referenceIndex].indices.map(idx => reference.worldPoints[idx]);
+        const incidentIndex = incident.findMostAlignedFace(incidentNormals, referenceNormal.clone().negate());
+        let polygon = incident.faces[incidentIndex].indices.map(idx => incident.worldPoints[idx].clone());
+
+        // Clip against the planes through the edges of the reference face, facing outwards
+        const center = new THREE.Vector3();
+        referencePoints.forEach(point => center.add(point));
+        center.divideScalar(referencePoints.length);
+        for (let i = 0; i < referencePoints.length && polygon.length > 0; i++) {
+            const start = referencePoints[i];
+            const end = referencePoints[(i + 1) % referencePoints.length];
+            const sideNormal = new THREE.Vector3().subVectors(end, start).cross(referenceNormal).normalize();
+            if (sideNormal.dot(new THREE.Vector3().subVectors(center, start)) > 0) {
+                sideNormal.negate();
+            }
+            polygon = this.clipPolygon(polygon, sideNormal, sideNormal.dot(start));
+        }
+
+        // Keep the points below the reference face or within the margin above it, placed halfway between both surfaces
+        const referenceOffset = referenceNormal.dot(referencePoints[0]);
+        const points: ContactPoint[] = [];
+        for (const point of polygon) {
+            const pointDepth = referenceOffset - referenceNormal.dot(point);
+            if (pointDepth >= -margin) {
+                points.push({
+                    position: point.clone().addScaledVector(referenceNormal, pointDepth * 0.5),
+                    depth: pointDepth
+                });
+            }
+        }
+
+        // Clipping can miss when the shapes only just touch, fall back to the deepest point of the other shape
+        if (points.length === 0) {
+            const deepest = incident.getSupportPoint(referenceNormal.clone().negate());
+            points.push({ position: deepest.addScaledVector(referenceNormal, depth * 0.5), depth });
+        }
+
+        return { normal, depth, points };
+    }
+
+    /**
+     * Contact of an edge against an edge: the closest points between the two edges that point furthest into each other
+     */
+    private getEdgeContact(
+        other: ConvexShape,
+        normal: THREE.Vector3,
+        depth: number,
+        dirA: THREE.Vector3,
+        dirB: THREE.Vector3
+    ): ContactManifold {
+        const edgeA = this.findSupportEdge(dirA, normal);
+        const edgeB = other.findSupportEdge(dirB, normal.clone().negate());
+        const closest = ConvexShape.closestPointsBetweenSegments(edgeA[0], edgeA[1], edgeB[0], edgeB[1]);
+        const position = closest[0].add(closest[1]).multiplyScalar(0.5);
+        return { normal, depth, points: [{ position, depth }] };
+    }
+
+    // Edge parallel to a direction that lies furthest along an axis
+    private findSupportEdge(direction: THREE.Vector3, axis: THREE.Vector3): [THREE.Vector3, THREE.Vector3] {
+        let best: [THREE.Vector3, THREE.Vector3] = [this.worldPoints[0], this.worldPoints[0]];
+        let bestProjection = -Number.MAX_VALUE;
+        for (const [i, j] of this.getEdges()) {
+            const start = this.worldPoints[i];
+            const end = this.worldPoints[j];
+            const edgeDir = new THREE.Vector3().subVectors(end, start).normalize();
+            if (Math.abs(edgeDir.dot(direction)) < 0.999) continue;
+
+            const projection = axis.dot(start) + axis.dot(end);
+            if (projection > bestProjection) {
+                bestProjection = projection;
+                best = [start, end];
+            }
+        }
+        return best;
+    }
+
+    private getSupportPoint(direction: THREE.Vector3): THREE.Vector3 {
+        let best = this.worldPoints[0];
+        for (const point of this.worldPoints) {
+            if (direction.dot(point) > direction.dot(best)) {
+                best = point;
+            }
+        }
+        return best.clone();
+    }
+
+    private findMostAlignedFace(normals: THREE.Vector3[], direction: THREE.Vector3): number {
+        let best = 0;
+        for (let i = 1; i < normals.length; i++) {
+            if (normals[i].dot(direction) > normals[best].dot(direction)) {
+                best = i;
+            }
+        }
+        return best;
+    }
+
+    // Keep the part of a polygon behind a plane, the points with normal·point <= offset
+    private clipPolygon(polygon: THREE.Vector3[], planeNormal: THREE.Vector3, offset: number): THREE.Vector3[] {
+        const result: THREE.Vector3[] = [];
+        for (let i = 0; i < polygon.length; i++) {
+            const current = polygon[i];
+            const next = polygon[(i + 1) % polygon.length];
+            const currentDistance = planeNormal.dot(current) - offset;
+            const nextDistance = planeNormal.dot(next) - offset;
+
+            if (currentDistance <= 0) {
+                result.push(current);
+            }
+            if ((currentDistance < 0 && nextDistance > 0) || (currentDistance > 0 && nextDistance < 0)) {
+                const t = currentDistance / (currentDistance - nextDistance);
+                result.push(current.clone().lerp(next, t));
+            }
+        }
+        return result;
+    }
+
+    // Face normals kept up to date by updateTransform, shared so callers must not change them
+    private getOutwardFaceNormals(): THREE.Vector3[] {
+        if (this.faceNormals.length !== this.faces.length) {
+            this.faceNormals = this.calculateOutwardFaceNormals();
+        }
+        return this.faceNormals;
+    }
+
+    /**
+     * Face normals in world space pointing out of the shape, whatever the winding of the faces
+     */
+    private calculateOutwardFaceNormals(): THREE.Vector3[] {
+        const center = new THREE.Vector3();
+        this.worldPoints.forEach(point => center.add(point));
+        center.divideScalar(this.worldPoints.length);
+
+        return this.faces.map(face => {
+            const facePoints = face.indices.map(idx => this.worldPoints[idx]);
+            const normal = this.calculateFaceNormal(facePoints);
+            if (normal.dot(new THREE.Vector3().subVectors(facePoints[0], center)) < 0) {
+                normal.negate();
+            }
+            return normal;
+        });
+    }
+
+    // Pairs of point indices of all edges, each edge once
+    private getEdges(): [number, number][] {
+        const edges: [number, number][] = [];
+        const seen = new Set<string>();
+        for (const face of this.faces) {
+            for (let i = 0; i < face.indices.length; i++) {
+                const a = face.indices[i];
+                const b = face.indices[(i + 1) % face.indices.length];
+                const key = a < b ? `${a},${b}` : `${b},${a}`;
+                if (!seen.has(key)) {
+                    seen.add(key);
+                    edges.push([a, b]);
+                }
+            }
+        }
+        return edges;
+    }
+
+    // World space directions of the edges, parallel edges only once
+    private getEdgeDirections(): THREE.Vector3[] {
+        const directions: THREE.Vector3[] = [];
+        for (const [i, j] of this.getEdges()) {
+            const direction = new THREE.Vector3().subVectors(this.worldPoints[j], this.worldPoints[i]);
+            if (direction.lengthSq() < 0.000001) continue;
+            direction.normalize();
+            if (!directions.some(existing => Math.abs(existing.dot(direction)) > 0.999)) {
+                directions.push(direction);
+            }
+        }
+        return directions;
+    }
+
+    /**
+     * Find the closest points between two line segments
+     * @returns The closest point on the first segment and the closest point on the second segment
+     */
+    static closestPointsBetweenSegments(
+        startA: THREE.Vector3,
+        endA: THREE.Vector3,
+        startB: THREE.Vector3,
+        endB: THREE.Vector3
+    ): [THREE.Vector3, THREE.Vector3] {
+        const dirA = new THREE.Vector3().subVectors(endA, startA);
+        const dirB = new THREE.Vector3().subVectors(endB, startB);
+        const between = new THREE.Vector3().subVectors(startA, startB);
+        const lengthA = dirA.dot(dirA);
+        const lengthB = dirB.dot(dirB);
+        const f = dirB.dot(between);
+
+        let s = 0;
+        let t = 0;
+        if (lengthA < 0.000001 && lengthB < 0.000001) {
+            // Both segments are points
+        } else if (lengthA < 0.000001) {
+            t = THREE.MathUtils.clamp(f / lengthB, 0, 1);
+        } else {
+            const c = dirA.dot(between);
+            if (lengthB < 0.000001) {
+                s = THREE.MathUtils.clamp(-c / lengthA, 0, 1);
+            } else {
+                const b = dirA.dot(dirB);
+                const denominator = lengthA * lengthB - b * b;
+                // Parallel segments have no single closest pair, any point of the first one works
+                s = denominator > 0.000001 ? THREE.MathUtils.clamp((b * f - c * lengthB) / denominator, 0, 1) : 0;
+                t = (b * s + f) / lengthB;
+                if (t < 0) {
+                    t = 0;
+                    s = THREE.MathUtils.clamp(-c / lengthA, 0, 1);
+                } else if (t > 1) {
+                    t = 1;
+                    s = THREE.MathUtils.clamp((b - c) / lengthA, 0, 1);
+                }
+            }
+        }
+
+        return [
+            startA.clone().addScaledVector(dirA, s),
+            startB.clone().addScaledVector(dirB, t)
+        ];
     }
     
     /**
@@ -633,6 +1089,263 @@ export class ConvexShape extends Body {
         return shape;
     }
     
+    /**
+     * Create the convex hull of a point cloud, faces are found with quickhull
+     * and triangles in the same plane are merged into one polygon
+     * @param points Points in local space, points inside the hull are dropped
+     * @returns The hull, throws if all points are in one plane
+     */
+    static fromPoints(points: THREE.Vector3[]): ConvexShape {
+        const size = new THREE.Box3().setFromPoints(points).getSize(new THREE.Vector3());
+        const tolerance = Math.max(size.length(), 1) * HULL_TOLERANCE;
+        const triangles = ConvexShape.buildHullTriangles(points, tolerance);
+
+        // On a convex hull all triangles in one plane form a single polygon
+        const planes: HullTriangle[][] = [];
+        triangles.forEach(triangle => {
+            const plane = planes.find(group =>
+                group[0].normal.dot(triangle.normal) > 0 &&
+                triangle.indices.every(index => Math.abs(group[0].normal.dot(points[index]) - group[0].offset) < tolerance)
+            );
+            if (plane) {
+                plane.push(triangle);
+            } else {
+                planes.push([triangle]);
+            }
+        });
+
+        const polygons = planes.map(group => {
+            const indices = new Set<number>();
+            group.forEach(triangle => triangle.indices.forEach(index => indices.add(index)));
+            return ConvexShape.orderHullPolygon(points, [...indices], group[0].normal, tolerance);
+        });
+
+        // Keep only the corners of the hull, in the order they were given
+        const corners = new Set<number>();
+        polygons.forEach(polygon => polygon.forEach(index => corners.add(index)));
+        const hullIndices = [...corners].sort((a, b) => a - b);
+        const remap = new Map(hullIndices.map((index, i) => [index, i] as [number, number]));
+
+        return new ConvexShape(
+            hullIndices.map(index => points[index]),
+            polygons.map(polygon => ({ indices: polygon.map(index => remap.get(index)!) }))
+        );
+    }
+
+    /**
+     * Create a wedge for ramps, the slope rises along x from the bottom edge at min.x to the full height at max.x
+     * @param min Minimum corner of the box around the wedge
+     * @param max Maximum corner of the box around the wedge
+     */
+    static createWedge(min: THREE.Vector3, max: THREE.Vector3): ConvexShape {
+        return ConvexShape.fromPoints([
+            new THREE.Vector3(min.x, min.y, min.z),
+            new THREE.Vector3(max.x, min.y, min.z),
+            new THREE.Vector3(max.x, min.y, max.z),
+            new THREE.Vector3(min.x, min.y, max.z),
+            new THREE.Vector3(max.x, max.y, min.z),
+            new THREE.Vector3(max.x, max.y, max.z)
+        ]);
+    }
+
+    /**
+     * Create an upright prism with a regular polygon as base, centered at the origin
+     * @param radius Distance from the axis to the corners
+     * @param height Height along y
+     * @param sides Number of corners of the base
+     */
+    static createPrism(radius: number, height: number, sides: number): ConvexShape {
+        const points: THREE.Vector3[] = [];
+        for (let i = 0; i < sides; i++) {
+            const angle = (i / sides) * Math.PI * 2;
+            const x = Math.cos(angle) * radius;
+            const z = Math.sin(angle) * radius;
+            points.push(new THREE.Vector3(x, -height / 2, z), new THREE.Vector3(x, height / 2, z));
+        }
+        return ConvexShape.fromPoints(points);
+    }
+
+    /**
+     * Create an upright cylinder centered at the origin, approximated by a prism with many sides
+     * @param radius Radius of the cylinder
+     * @param height Height along y
+     * @param segments Number of sides around the axis
+     */
+    static createCylinder(radius: number, height: number, segments: number = 16): ConvexShape {
+        return ConvexShape.createPrism(radius, height, segments);
+    }
+
+    // Quickhull: start from a tetrahedron and keep adding the point farthest in front of a triangle
+    private static buildHullTriangles(points: THREE.Vector3[], tolerance: number): HullTriangle[] {
+        const simplex = ConvexShape.findHullSimplex(points, tolerance);
+        if (!simplex) {
+            throw new Error("A convex hull needs at least 4 points that are not in one plane");
+        }
+
+        // Triangles are turned so they face away from this point inside the hull
+        const inside = new THREE.Vector3();
+        simplex.forEach(index => inside.add(points[index]));
+        inside.divideScalar(4);
+
+        const distance = (triangle: HullTriangle, index: number) => triangle.normal.dot(points[index]) - triangle.offset;
+        const assign = (indices: number[], candidates: HullTriangle[]) => {
+            // Points that are in front of no triangle are inside the hull
+            indices.forEach(index => {
+                const triangle = candidates.find(candidate => distance(candidate, index) > tolerance);
+                if (triangle) triangle.outside.push(index);
+            });
+        };
+
+        const [a, b, c, d] = simplex;
+        let triangles = [
+            ConvexShape.createHullTriangle(points, a, b, c, inside),
+            ConvexShape.createHullTriangle(points, a, b, d, inside),
+            ConvexShape.createHullTriangle(points, a, c, d, inside),
+            ConvexShape.createHullTriangle(points, b, c, d, inside)
+        ];
+        assign(points.map((_, index) => index).filter(index => !simplex.includes(index)), triangles);
+
+        let triangle = triangles.find(candidate => candidate.outside.length > 0);
+        while (triangle) {
+            const from = triangle;
+            const eye = from.outside.reduce((best, index) => distance(from, index) > distance(from, best) ? index : best);
+
+            // The triangles the new point sees are replaced by a fan from their outline to the point
+            const visible = triangles.filter(candidate => distance(candidate, eye) > tolerance);
+            const edges = new Set<string>();
+            visible.forEach(candidate => candidate.indices.forEach((index, i) => {
+                edges.add(`${index},${candidate.indices[(i + 1) % 3]}`);
+            }));
+
+            const created: HullTriangle[] = [];
+            visible.forEach(candidate => candidate.indices.forEach((index, i) => {
+                const next = candidate.indices[(i + 1) % 3];
+                if (!edges.has(`${next},${index}`)) {
+                    created.push(ConvexShape.createHullTriangle(points, index, next, eye, inside));
+                }
+            }));
+
+            const orphans: number[] = [];
+            visible.forEach(candidate => candidate.outside.forEach(index => {
+                if (index !== eye) orphans.push(index);
+            }));
+            triangles = triangles.filter(candidate => !visible.includes(candidate)).concat(created);
+            assign(orphans, created);
+
+            triangle = triangles.find(candidate => candidate.outside.length > 0);
+        }
+
+        return triangles;
+    }
+
+    // Four points spanning a tetrahedron that is as large as is cheap to find, null if the points are flat
+    private static findHullSimplex(points: THREE.Vector3[], tolerance: number): number[] | null {
+        if (points.length < 4) return null;
+
+        // The two extreme points along the axis the cloud is longest on
+        let a = 0;
+        let b = 0;
+        let longest = -1;
+        for (let axis = 0; axis < 3; axis++) {
+            let min = 0;
+            let max = 0;
+            points.forEach((point, index) => {
+                if (point.getComponent(axis) < points[min].getComponent(axis)) min = index;
+                if (point.getComponent(axis) > points[max].getComponent(axis)) max = index;
+            });
+            const extent = points[max].getComponent(axis) - points[min].getComponent(axis);
+            if (extent > longest) {
+                longest = extent;
+                a = min;
+                b = max;
+            }
+        }
+        if (points[a].distanceTo(points[b]) <= tolerance) return null;
+
+        // The point farthest from the line between them
+        const line = new THREE.Line3(points[a], points[b]);
+        const closest = new THREE.Vector3();
+        let c = -1;
+        let lineDistance = tolerance;
+        points.forEach((point, index) => {
+            const distance = line.closestPointToPoint(point, false, closest).distanceTo(point);
+            if (distance > lineDistance) {
+                lineDistance = distance;
+                c = index;
+            }
+        });
+        if (c < 0) return null;
+
+        // The point farthest from the plane through all three
+        const plane = new THREE.Plane().setFromCoplanarPoints(points[a], points[b], points[c]);
+        let d = -1;
+        let planeDistance = tolerance;
+        points.forEach((point, index) => {
+            const distance = Math.abs(plane.distanceToPoint(point));
+            if (distance > planeDistance) {
+                planeDistance = distance;
+                d = index;
+            }
+        });
+        if (d < 0) return null;
+
+        return [a, b, c, d];
+    }
+
+    private static createHullTriangle(
+        points: THREE.Vector3[],
+        a: number,
+        b: number,
+        c: number,
+        inside: THREE.Vector3
+    ): HullTriangle {
+        const normal = new THREE.Vector3()
+            .subVectors(points[b], points[a])
+            .cross(new THREE.Vector3().subVectors(points[c], points[a]))
+            .normalize();
+        if (normal.dot(inside) > normal.dot(points[a])) {
+            normal.negate();
+            return { indices: [a, c, b], normal, offset: normal.dot(points[a]), outside: [] };
+        }
+        return { indices: [a, b, c], normal, offset: normal.dot(points[a]), outside: [] };
+    }
+
+    // Corners of a hull face in the winding of the other shapes, clockwise seen from outside so
+    // calculateFaceNormal points inwards. Points inside the face or on its edges are dropped.
+    private static orderHullPolygon(
+        points: THREE.Vector3[],
+        indices: number[],
+        normal: THREE.Vector3,
+        tolerance: number
+    ): number[] {
+        // 2D coordinates in the plane, with v = u x n counter-clockwise in 2D is clockwise seen from outside
+        const u = new THREE.Vector3()
+            .crossVectors(normal, Math.abs(normal.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0))
+            .normalize();
+        const v = new THREE.Vector3().crossVectors(u, normal);
+        const flat = indices
+            .map(index => ({ index, x: points[index].dot(u), y: points[index].dot(v) }))
+            .sort((p, q) => p.x - q.x || p.y - q.y);
+
+        // Monotone chain, a point is dropped unless the outline turns left at it
+        type FlatPoint = typeof flat[number];
+        const turnsLeft = (o: FlatPoint, p: FlatPoint, q: FlatPoint) =>
+            (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x) > tolerance * Math.hypot(q.x - o.x, q.y - o.y);
+        const buildChain = (sorted: FlatPoint[]) => {
+            const chain: FlatPoint[] = [];
+            sorted.forEach(point => {
+                while (chain.length >= 2 && !turnsLeft(chain[chain.length - 2], chain[chain.length - 1], point)) {
+                    chain.pop();
+                }
+                chain.push(point);
+            });
+            chain.pop();
+            return chain;
+        };
+
+        return buildChain(flat).concat(buildChain(flat.slice().reverse())).map(point => point.index);
+    }
+
     /**
      * Create a mesh in local space (at origin)
      */
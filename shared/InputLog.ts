@@ -0,0 +1,122 @@
+import * as THREE from 'three';
+
+export interface PlayerInput {
+    w: boolean;
+    a: boolean;
+    s: boolean;
+    d: boolean;
+    space: boolean;
+    shift: boolean;
+}
+
+export interface LevelInputs {
+    playerForward: THREE.Vector3;
+    playerInput: PlayerInput;
+}
+
+// A recorded run: everything needed to play it back or verify it
+export interface ReplayData {
+    levelIdx: number;
+    seed: number;
+    ticks: number;
+    username: string;
+    frames: number[][];
+    splits?: (number | null)[];  // Tick each checkpoint was first reached at, by checkpoint index
+}
+
+// Forward vector components are stored as integers with this precision
+const FORWARD_PRECISION = 1000;
+
+/**
+ * Compact per-tick log of the inputs fed into Level.fixedUpdate.
+ * Frames are run-length encoded as [count, keyBits, forwardX, forwardY, forwardZ].
+ */
+export class InputLog {
+    public frames: number[][] = [];
+    public tickCount: number = 0;
+
+    /**
+     * Record the inputs for one tick.
+     * @param inputs The inputs collected for this tick
+     * @returns The quantized inputs, which must be used for the simulation so it matches a replay
+     */
+    public record(inputs: LevelInputs): LevelInputs {
+        const keyBits = InputLog.encodeKeys(inputs.playerInput);
+        const forwardX = Math.round(inputs.playerForward.x * FORWARD_PRECISION);
+        const forwardY = Math.round(inputs.playerForward.y * FORWARD_PRECISION);
+        const forwardZ = Math.round(inputs.playerForward.z * FORWARD_PRECISION);
+
+        const last = this.frames[this.frames.length - 1];
+        if (last && last[1] === keyBits && last[2] === forwardX && last[3] === forwardY && last[4] === forwardZ) {
+            last[0]++;
+        } else {
+            this.frames.push([1, keyBits, forwardX, forwardY, forwardZ]);
+        }
+        this.tickCount++;
+
+        return InputLog.decodeFrame(keyBits, forwardX, forwardY, forwardZ);
+    }
+
+    /**
+     * Expand the log into one input object per tick
+     * @returns Array of inputs, one per recorded tick
+     */
+    public decode(): LevelInputs[] {
+        const inputs: LevelInputs[] = [];
+        for (const frame of this.frames) {
+            for (let i = 0; i < frame[0]; i++) {
+                inputs.push(InputLog.decodeFrame(frame[1], frame[2], frame[3], frame[4]));
+            }
+        }
+        return inputs;
+    }
+
+    /**
+     * Create an input log from frames received over the network or loaded from a file
+     * @param frames The run-length encoded frames
+     * @param maxTicks Maximum number of ticks accepted
+     * @returns The input log, or null if the frames are malformed
+     */
+    public static fromFrames(frames: any, maxTicks: number = Infinity): InputLog | null {
+        if (!Array.isArray(frames)) return null;
+
+        const log = new InputLog();
+        for (const frame of frames) {
+            if (!Array.isArray(frame) || frame.length !== 5) return null;
+            if (!frame.every(value => Number.isInteger(value))) return null;
+            if (frame[0] < 1 || frame[1] < 0 || frame[1] > 63) return null;
+
+            log.tickCount += frame[0];
+            if (log.tickCount > maxTicks) return null;
+            log.frames.push(frame.slice());
+        }
+        return log;
+    }
+
+    private static encodeKeys(input: PlayerInput): number {
+        return (input.w ? 1 : 0) |
+            (input.a ? 2 : 0) |
+            (input.s ? 4 : 0) |
+            (input.d ? 8 : 0) |
+            (input.space ? 16 : 0) |
+            (input.shift ? 32 : 0);
+    }
+
+    private static decodeFrame(keyBits: number, forwardX: number, forwardY: number, forwardZ: number): LevelInputs {
+        return {
+            playerForward: new THREE.Vector3(
+                forwardX / FORWARD_PRECISION,
+                forwardY / FORWARD_PRECISION,
+                forwardZ / FORWARD_PRECISION
+            ),
+            playerInput: {
+                w: (keyBits & 1) !== 0,
+                a: (keyBits & 2) !== 0,
+                s: (keyBits & 4) !== 0,
+                d: (keyBits & 8) !== 0,
+                space: (keyBits & 16) !== 0,
+                shift: (keyBits & 32) !== 0
+            }
+        };
+    }
+}
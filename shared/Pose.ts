@@ -0,0 +1,68 @@
+import * as THREE from 'three';
+
+// Number of particles in a player body, the first one is the head
+export const POSE_PARTICLE_COUNT = 11;
+
+// Particle offsets from the head are sent as integers with this precision (1cm)
+const POSE_PRECISION = 100;
+
+// Offsets must fit the int16 values of the network schema
+const MAX_POSE_VALUE = 32767;
+
+/**
+ * Quantized snapshot of a player body for network sync.
+ * The head position is sent as is, the other particles as [x, y, z] offsets from it.
+ */
+export class Pose {
+    /**
+     * Quantize particle positions
+     * @param positions Positions of all particles, head first
+     * @returns Flat array of integer offsets for every particle after the head
+     */
+    public static encode(positions: THREE.Vector3[]): number[] {
+        const head = positions[0];
+        const pose: number[] = [];
+        for (let i = 1; i < positions.length; i++) {
+            pose.push(
+                Pose.quantize(positions[i].x - head.x),
+                Pose.quantize(positions[i].y - head.y),
+                Pose.quantize(positions[i].z - head.z)
+            );
+        }
+        return pose;
+    }
+
+    /**
+     * Restore particle positions from a quantized snapshot
+     * @param pose Integer offsets as created by encode
+     * @param head Position of the head particle
+     * @returns Positions of all particles, head first
+     */
+    public static decode(pose: number[], head: THREE.Vector3): THREE.Vector3[] {
+        const positions = [head.clone()];
+        for (let i = 0; i + 2 < pose.length; i += 3) {
+            positions.push(new THREE.Vector3(
+                head.x + pose[i] / POSE_PRECISION,
+                head.y + pose[i + 1] / POSE_PRECISION,
+                head.z + pose[i + 2] / POSE_PRECISION
+            ));
+        }
+        return positions;
+    }
+
+    /**
+     * Check if a snapshot received over the network can be decoded
+     * @param pose The received value
+     * @returns True if it holds an integer offset for every particle after the head
+     */
+    public static isValid(pose: any): boolean {
+        return Array.isArray(pose) &&
+            pose.length === (POSE_PARTICLE_COUNT - 1) * 3 &&
+            pose.every(value => Number.isInteger(value) && Math.abs(value) <= MAX_POSE_VALUE);
+    }
+
+    private static quantize(offset: number): number {
+        const value = Math.round(offset * POSE_PRECISION);
+        return Math.max(-MAX_POSE_VALUE, Math.min(MAX_POSE_VALUE, value));
+    }
+}
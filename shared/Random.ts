@@ -0,0 +1,37 @@
+// Seed used for every timed run, so highscore runs can be replayed as ghosts
+export const DEFAULT_SEED = 1;
+
+/**
+ * Small seedable pseudo random number generator (mulberry32).
+ * Used instead of Math.random() inside the simulation so runs with the same seed and inputs are identical.
+ */
+export class Random {
+    public seed: number;
+    private state: number;
+
+    constructor(seed: number = DEFAULT_SEED) {
+        this.seed = seed;
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Get the next random number
+     * @returns A number in the range [0, 1)
+     */
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Restart the sequence from a seed
+     * @param seed The seed to restart from
+     */
+    public reset(seed: number = this.seed): void {
+        this.seed = seed;
+        this.state = seed >>> 0;
+    }
+}
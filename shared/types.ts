@@ -5,6 +5,10 @@ export interface PlayerPosition {
     dirX: number;
     dirY: number;
     dirZ: number;
+    pose: number[];
+    movementState: number;
+    ropeIndex: number;
+    time: number;
 }
 
 export interface Player {
@@ -15,4 +19,34 @@ export interface Player {
 
 export interface GameState {
     players: Map<string, Player>;
-}
\ No newline at end of file
+}
+
+export interface AccountStats {
+    joins: number; // Sessions, counted once per page load instead of on every room switch
+    levelsCompleted: number;
+    totalTimeMs: number;
+}
+
+export interface AccountProfile {
+    id: string;
+    displayName: string;
+    color: string;
+    stats: AccountStats;
+    createdAt: number;
+}
+
+/**
+ * Time window of a leaderboard, boards restart at midnight UTC and on Mondays
+ */
+export enum HighscorePeriod {
+    Daily = "daily",
+    Weekly = "weekly",
+    AllTime = "alltime"
+}
+
+// One verified completion of a level, kept in the personal history of an account
+export interface LevelAttempt {
+    timeMs: number;
+    stars: number;
+    timestamp: number;
+}